@@ -0,0 +1,213 @@
+import { describe, expect, test } from "bun:test";
+import {
+  extractAgentCommands,
+  markCommandFailed,
+  parseAnswers,
+  parseFrontmatter,
+  parseTaskResult,
+  planScheduleRuns,
+  resolveRunOptions,
+  updateFrontmatter,
+  type AgentJob,
+} from "./daemon";
+
+function jobFor(content: string): AgentJob {
+  const [command] = extractAgentCommands(content);
+  return { id: "note.md#1", filePath: "/vault/note.md", relPath: "note.md", key: "key#1", command, queuedAt: 0 };
+}
+
+describe("markCommandFailed", () => {
+  test("marks a line command", () => {
+    const content = "# Note\n\n@agent tidy this\n";
+    const marked = markCommandFailed(content, jobFor(content), "boom");
+
+    expect(marked).toContain("@agent-failed tidy this");
+    expect(marked).toContain("> boom");
+    expect(extractAgentCommands(marked!)).toEqual([]);
+  });
+
+  test("marks a mixed-case callout", () => {
+    const content = "# Note\n\n> [!Agent] tidy this\n> and that\n\nAfter\n";
+    const job = jobFor(content);
+    expect(job.command.form).toBe("callout");
+
+    const marked = markCommandFailed(content, job, "boom");
+
+    expect(marked).toContain("> [!Agent-failed] tidy this");
+    expect(marked).toContain("> [!failure] @agent failed");
+    expect(extractAgentCommands(marked!)).toEqual([]);
+  });
+
+  test("returns null when the command is gone", () => {
+    const job = jobFor("@agent tidy this\n");
+    expect(markCommandFailed("# Note\n", job, "boom")).toBeNull();
+  });
+});
+
+describe("frontmatter", () => {
+  test("round-trips inline lists with commas and quotes in items", () => {
+    const depends = ["Gather sources, notes.md", "Edit.md", 'Say "hi".md'];
+    const content = updateFrontmatter("Body\n", { depends_on: depends, follow_up_depth: 1 });
+
+    expect(content).toContain('depends_on: ["Gather sources, notes.md", Edit.md, "Say \\"hi\\".md"]');
+    expect(parseFrontmatter(content).data).toEqual({ depends_on: depends, follow_up_depth: 1 });
+  });
+
+  test("splits hand-written inline lists", () => {
+    const { data } = parseFrontmatter("---\ntags: [a, 'b, c', \"d\"]\n---\n");
+    expect(data.tags).toEqual(["a", "b, c", "d"]);
+  });
+
+  test("reads scalars and block lists", () => {
+    const { data, body } = parseFrontmatter("---\npriority: high\ntimeout: 10\ndone: false\nempty:\ntags:\n  - one\n  - \"two\"\n---\nBody\n");
+    expect(data).toEqual({ priority: "high", timeout: 10, done: false, empty: null, tags: ["one", "two"] });
+    expect(body).toBe("Body\n");
+  });
+
+  test("rewrites updated keys, removes undefined ones and keeps the rest", () => {
+    const content = "---\nstatus: pending\n# a comment\nretry_attempt: 2\ntags:\n  - a\n---\nBody\n";
+    const updated = updateFrontmatter(content, { status: "completed", retry_attempt: undefined, tags: undefined, note: "yes: no" });
+
+    expect(updated).toBe('---\n# a comment\nstatus: completed\nnote: "yes: no"\n---\nBody\n');
+    expect(parseFrontmatter(updated).data).toEqual({ status: "completed", note: "yes: no" });
+  });
+
+  test("adds a frontmatter block to a note without one", () => {
+    const updated = updateFrontmatter("Body\n", { count: 3, flag: true, when: "2026-01-01T00:00:00.000Z" });
+    expect(parseFrontmatter(updated)).toEqual({ data: { count: 3, flag: true, when: "2026-01-01T00:00:00.000Z" }, body: "Body\n" });
+  });
+});
+
+describe("parseTaskResult", () => {
+  const resultBlock = (json: string) => `Did the work.\n\n\`\`\`task-result\n${json}\n\`\`\``;
+
+  test("reads the last task-result block", () => {
+    const output = `${resultBlock('{"status": "blocked"}')}\n${resultBlock(JSON.stringify({
+      status: "partial",
+      summary: "  Half done  ",
+      questions: ["Which one?", 3],
+      files_changed: ["Notes/A.md"],
+      follow_up_tasks: ["Write it up", { title: "Edit", prompt: "Edit it", depends_on: ["Write it up"] }, { title: "No prompt" }, 7],
+    }))}`;
+
+    expect(parseTaskResult(output)).toEqual({
+      status: "partial",
+      summary: "Half done",
+      questions: ["Which one?"],
+      files_changed: ["Notes/A.md"],
+      follow_up_tasks: [
+        { title: "Write it up", prompt: "Write it up" },
+        { title: "Edit", prompt: "Edit it", depends_on: ["Write it up"] },
+      ],
+      structured: true,
+    });
+  });
+
+  test("defaults an unknown status to completed and the summary to the prose", () => {
+    const result = parseTaskResult(resultBlock('{"status": "great"}'));
+    expect(result.status).toBe("completed");
+    expect(result.summary).toBe("Did the work.");
+  });
+
+  test("falls back to the questions heading without a usable block", () => {
+    for (const output of ["Stuck.\n\n## Questions from Claude\n1. Which vault?\n2. Which note?\n", `${resultBlock("[1, 2]")}\n\n## Questions from Claude\n- Which vault?\n- Which note?`]) {
+      const result = parseTaskResult(output);
+      expect(result.structured).toBe(false);
+      expect(result.status).toBe("blocked");
+      expect(result.questions).toEqual(["Which vault?", "Which note?"]);
+    }
+    expect(parseTaskResult("All done.").status).toBe("completed");
+  });
+});
+
+describe("parseAnswers", () => {
+  const note = (answers: string) => `Task\n\n## Questions from Claude\n\n1. Which vault?\n2. Which note?\n${answers}`;
+
+  test("reads answers under each question", () => {
+    const content = "Task\n\n## Questions from Claude\n\n1. Which vault?\n   A: Work\n2. Which note?\n   - Inbox.md\n";
+    expect(parseAnswers(content)).toEqual({
+      pairs: [{ question: "Which vault?", answer: "Work" }, { question: "Which note?", answer: "Inbox.md" }],
+      notes: "",
+    });
+  });
+
+  test("matches numbered answers below the comment and keeps the rest as notes", () => {
+    expect(parseAnswers(note("\n<!-- Answer below -->\n2. Inbox.md\nBe quick.\n"))).toEqual({
+      pairs: [{ question: "Which vault?", answer: null }, { question: "Which note?", answer: "Inbox.md" }],
+      notes: "Be quick.",
+    });
+  });
+
+  test("gives prose below the comment to a single question", () => {
+    const content = "## Questions from Claude\n1. Which vault?\n\n<!-- Answer below -->\nThe work one.\n";
+    expect(parseAnswers(content)).toEqual({ pairs: [{ question: "Which vault?", answer: "The work one." }], notes: "" });
+  });
+
+  test("returns null until something is answered", () => {
+    expect(parseAnswers(note("\n<!-- Answer below -->\n"))).toBeNull();
+    expect(parseAnswers("No questions here")).toBeNull();
+  });
+});
+
+describe("resolveRunOptions", () => {
+  const claude = {
+    timeout_ms: 60_000,
+    overrides: { models: ["haiku"], tools: ["Read", "Bash"], args: ["--max-turns", "--verbose"], max_timeout_ms: 120_000 },
+  };
+  const resolveWith = (overrides: Parameters<typeof resolveRunOptions>[0]) => resolveRunOptions(overrides, claude, "/tmp");
+
+  test("passes allowed overrides through", () => {
+    expect(resolveWith({ model: "haiku", allowed_tools: ["Read", "Bash(git:*)"], args: ["--max-turns", "5", "--verbose"], timeout_ms: 90_000 })).toEqual({
+      model: "haiku",
+      allowed_tools: ["Read", "Bash(git:*)"],
+      args: ["--max-turns", "5", "--verbose"],
+      cwd: "/tmp",
+      timeout_ms: 90_000,
+    });
+    expect(resolveWith({}).timeout_ms).toBe(60_000);
+  });
+
+  test("rejects flags off the allowlist and stray values", () => {
+    expect(() => resolveWith({ args: ["--model", "x"] })).toThrow("Arguments not allowed: --model x");
+    expect(() => resolveWith({ args: ["--max-turns", "5", "extra", "stuff"] })).toThrow("Arguments not allowed: extra stuff");
+    expect(() => resolveWith({ args: ["--max-turns=5", "6"] })).toThrow("Arguments not allowed: 6");
+    expect(() => resolveWith({ args: ["value"] })).toThrow("Arguments not allowed: value");
+  });
+
+  test("rejects other models, tools, long timeouts and working directories outside the vault", () => {
+    expect(() => resolveWith({ model: "opus" })).toThrow('Model "opus" is not allowed');
+    expect(() => resolveWith({ allowed_tools: ["Write"] })).toThrow("Tools not allowed: Write");
+    expect(() => resolveWith({ timeout_ms: 200_000 })).toThrow("exceeds the 120000ms maximum");
+    expect(() => resolveWith({ cwd: "../etc" })).toThrow("is outside the vault");
+  });
+});
+
+describe("planScheduleRuns", () => {
+  const hourly = { id: "s", name: "Hourly", prompt: "Go", cron: "0 * * * *", timezone: "UTC", enabled: true, createdAt: "2026-01-01T00:00:00Z" };
+  const since = new Date("2026-03-02T10:30:00Z");
+  const at = (hour: number) => new Date(Date.UTC(2026, 2, 2, hour));
+  const onTime = new Date("2026-03-02T14:02:00Z");
+  const late = new Date("2026-03-02T14:30:00Z");
+
+  test("skips missed runs by default but runs the on-time one", () => {
+    expect(planScheduleRuns(hourly, since, onTime)).toEqual({ runs: [at(14)], missed: [at(11), at(12), at(13)], skipped: 3 });
+    expect(planScheduleRuns(hourly, since, late)).toEqual({ runs: [], missed: [at(11), at(12), at(13), at(14)], skipped: 4 });
+  });
+
+  test("catch_up once runs the latest missed occurrence unless one is on time", () => {
+    const schedule = { ...hourly, catch_up: "once" as const };
+    expect(planScheduleRuns(schedule, since, late).runs).toEqual([at(14)]);
+    expect(planScheduleRuns(schedule, since, onTime)).toEqual({ runs: [at(14)], missed: [at(11), at(12), at(13)], skipped: 3 });
+  });
+
+  test("catch_up all runs every occurrence, capped by max_runs", () => {
+    const schedule = { ...hourly, catch_up: "all" as const };
+    expect(planScheduleRuns(schedule, since, onTime)).toEqual({ runs: [at(11), at(12), at(13), at(14)], missed: [at(11), at(12), at(13)], skipped: 0 });
+    expect(planScheduleRuns({ ...schedule, max_runs: 5, run_count: 3 }, since, onTime).runs).toEqual([at(13), at(14)]);
+  });
+
+  test("stops at end_at and has nothing to run when nothing is due", () => {
+    expect(planScheduleRuns({ ...hourly, catch_up: "all", end_at: "2026-03-02T12:30:00Z" }, since, onTime).runs).toEqual([at(11), at(12)]);
+    expect(planScheduleRuns(hourly, since, new Date("2026-03-02T10:45:00Z"))).toEqual({ runs: [], missed: [], skipped: 0 });
+  });
+});
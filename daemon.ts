@@ -1,11 +1,13 @@
 #!/usr/bin/env bun
 
-import { watch } from "chokidar";
-import { spawn, type Subprocess, which } from "bun";
-import { readdir, readFile, writeFile, rename, stat, appendFile, truncate } from "fs/promises";
-import { join, relative, basename, dirname } from "path";
+import { watch, type FSWatcher } from "chokidar";
+import { spawn, which } from "bun";
+import { readdir, readFile, writeFile, rename, stat, appendFile, truncate, unlink, mkdir } from "fs/promises";
+import { join, relative, basename, dirname, resolve, isAbsolute } from "path";
 import { existsSync } from "fs";
 import { homedir } from "os";
+import { pathToFileURL } from "url";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
 import { Cron } from "croner";
 
 // =============================================================================
@@ -16,50 +18,250 @@ interface Config {
   vault_path: string | "auto";
   log_path: string | "auto";
   log_max_size_mb: number;
+  log_max_files?: number;
+  log_max_age_days?: number;
+  log_level?: Lowercase<LogLevel>;
   state_path: string | "auto";
+  journal_path?: string | "auto";
+  agent_index_path?: string | "auto";
+  schedule_history_path?: string | "auto";
   tasks: {
     enabled: boolean;
     debounce_ms: number;
     max_concurrent: number;
+    max_recoveries?: number;
+    retry?: Partial<RetryPolicy>;
+    progress_interval_ms?: number;
+    log_dir?: string | "auto";
+    follow_ups?: Partial<FollowUpPolicy>;
   };
   agent_tags: {
     enabled: boolean;
     scan_interval_ms: number;
     debounce_ms: number;
     ignore_patterns: string[];
+    max_concurrent?: number;
+    timeout_ms?: number;
+    agents?: Record<string, AgentDefinition>;
   };
   claude: {
     command: string | "auto";
     args: string[];
     timeout_ms: number;
+    output_format?: "stream-json" | "text";
+    overrides?: Partial<OverrideAllowlist>;
+  };
+  executor?: ExecutorConfig;
+  control?: {
+    enabled: boolean;
+    port: number;
+  };
+  backups?: {
+    path?: string | "auto";
+    max_versions?: number;
+  };
+  prompts?: {
+    dir?: string;
+  };
+  context?: Partial<ContextPolicy>;
+  schedules?: {
+    dir?: string;
+    history_limit?: number;
+    history_notes?: boolean;
+  };
+  metrics?: {
+    path?: string | "auto";
+    retention_days?: number;
+    dashboard?: boolean;
+    dashboard_path?: string;
+    recent_runs?: number;
+    prometheus_port?: number;
   };
 }
 
-interface ResolvedConfig extends Omit<Config, "vault_path" | "log_path" | "state_path" | "claude"> {
+interface ResolvedConfig extends Omit<Config, "vault_path" | "log_path" | "log_max_files" | "log_max_age_days" | "log_level" | "state_path" | "journal_path" | "agent_index_path" | "schedule_history_path" | "tasks" | "agent_tags" | "claude" | "executor" | "control" | "backups" | "prompts" | "context" | "schedules" | "metrics"> {
   vault_path: string;
   log_path: string;
+  log_max_files: number;
+  log_max_age_days: number;
+  log_level: Lowercase<LogLevel>;
   state_path: string;
+  journal_path: string;
+  agent_index_path: string;
+  schedule_history_path: string;
+  tasks: {
+    enabled: boolean;
+    debounce_ms: number;
+    max_concurrent: number;
+    max_recoveries: number;
+    retry: RetryPolicy;
+    progress_interval_ms: number;
+    log_dir: string;
+    follow_ups: FollowUpPolicy;
+  };
+  agent_tags: {
+    enabled: boolean;
+    scan_interval_ms: number;
+    debounce_ms: number;
+    ignore_patterns: string[];
+    max_concurrent: number;
+    timeout_ms: number;
+    agents: Record<string, AgentDefinition>;
+  };
   claude: {
     command: string;
     args: string[];
     timeout_ms: number;
+    output_format: "stream-json" | "text";
+    overrides: OverrideAllowlist;
+  };
+  executor: ExecutorConfig;
+  control: {
+    enabled: boolean;
+    port: number;
+  };
+  backups: {
+    path: string;
+    max_versions: number;
+  };
+  prompts: {
+    dir: string;
+  };
+  context: ContextPolicy;
+  schedules: {
+    dir: string;
+    history_limit: number;
+    history_notes: boolean;
   };
+  metrics: {
+    path: string;
+    retention_days: number;
+    dashboard: boolean;
+    dashboard_path: string;
+    recent_runs: number;
+    prometheus_port: number | null;
+  };
+}
+
+type ExecutorType = "claude" | "command" | "http" | "fake";
+
+/** The backend that runs prompts. `claude` uses the `claude` block. */
+interface ExecutorConfig {
+  type: ExecutorType;
+  /** command: program that reads the prompt on stdin and answers on stdout */
+  command?: string;
+  args?: string[];
+  /** http: base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  url?: string;
+  model?: string;
+  /** http: environment variable holding the API key */
+  api_key_env?: string;
+  /** fake: folder of fixture notes */
+  fixtures?: string;
+}
+
+interface FollowUpPolicy {
+  enabled: boolean;
+  max_per_task: number;
+  max_depth: number;
+}
+
+type FailureKind = "timeout" | "rate_limit" | "spawn" | "exit" | "reported" | "config" | "dependency";
+
+/** Which related vault notes are added to prompts, and how much of them. */
+interface ContextPolicy {
+  enabled: boolean;
+  max_tokens: number;
+  links: boolean;
+  backlinks: boolean;
+  tags: boolean;
+}
+
+interface RetryPolicy {
+  max_attempts: number;
+  backoff_ms: number;
+  max_backoff_ms: number;
+  retry_on: FailureKind[];
+}
+
+/**
+ * What task frontmatter and schedules are allowed to change about the Claude
+ * invocation. Anything outside these lists fails the task.
+ */
+interface OverrideAllowlist {
+  models: string[];
+  tools: string[];
+  args: string[];
+  max_timeout_ms: number;
 }
 
-interface Schedule {
+/** Per-run changes to the Claude invocation, from task frontmatter or a schedule. */
+interface RunOverrides {
+  model?: string | null;
+  allowed_tools?: string[];
+  args?: string[];
+  cwd?: string | null;
+  timeout_ms?: number | null;
+}
+
+/** Validated per-run settings, turned into flags or fields by the executor. */
+interface RunOptions {
+  model: string | null;
+  allowed_tools: string[];
+  args: string[];
+  cwd: string;
+  timeout_ms: number;
+}
+
+type CatchUpPolicy = "skip" | "once" | "all";
+type OverlapPolicy = "skip" | "queue";
+
+interface Schedule extends RunOverrides {
   id: string;
   name: string;
   prompt: string;
-  cron: string;
+  /** Recurring cron expression; a schedule has either this or run_at */
+  cron?: string;
+  /** One-shot ISO date-time; without an offset it's read in `timezone` */
+  run_at?: string;
+  /** IANA time zone for cron and run_at (default: the system zone) */
+  timezone?: string;
+  /** Runs missed while the daemon or the machine was down */
+  catch_up?: CatchUpPolicy;
+  /** What to do when the previous run's task is still queued or running */
+  overlap?: OverlapPolicy;
+  end_at?: string;
+  max_runs?: number;
+  run_count?: number;
   enabled: boolean;
   lastRun?: string;
   createdAt: string;
+  prompt_template?: string;
+  /** Vault-relative path of the note this schedule is defined in; not saved to the JSON file */
+  note?: string;
 }
 
 interface SchedulesFile {
   schedules: Schedule[];
 }
 
+type ScheduleRunOutcome = "pending" | "running" | "interrupted" | "cancelled" | "paused" | "skipped" | TaskOutcome;
+
+/** One run of a schedule: the task it created and how that task ended. */
+interface ScheduleRun {
+  run_id: string;
+  schedule_id: string;
+  /** Task file name; null for skipped runs */
+  task: string | null;
+  scheduled_for: string;
+  created_at: string;
+  outcome: ScheduleRunOutcome;
+  started_at?: string;
+  finished_at?: string;
+  duration_ms?: number;
+  error?: string;
+}
+
 interface ScheduledNext {
   id: string;
   name: string;
@@ -73,24 +275,249 @@ interface DaemonState {
   last_error: string | null;
   tasks_completed_today: number;
   agent_commands_today: number;
+  active_agent_commands: number;
+  queued_agent_commands: number;
   scheduled_next?: ScheduledNext | null;
   scheduled_count?: number;
+  /** The latest runs of each schedule, newest first */
+  schedule_runs?: Record<string, ScheduleRun[]>;
+}
+
+/** Control API `GET /status`. */
+interface StatusResponse extends DaemonState {
+  intake_paused: boolean;
+}
+
+/** An @agent command as the control API lists it. */
+interface AgentJobSummary {
+  id: string;
+  file: string;
+  line: number;
+  instruction: string;
+}
+
+/** Control API `GET /tasks`. */
+interface TasksResponse {
+  queued: Array<{ name: string; priority: TaskPriority; due: string | null }>;
+  active: string[];
+  agent: { queued: AgentJobSummary[]; active: AgentJobSummary[] };
+}
+
+type TaskMetricOutcome = "completed" | "partial" | "blocked" | "failed" | "retried" | "cancelled" | "paused" | "interrupted";
+type AgentMetricOutcome = "completed" | "failed" | "cancelled";
+
+/** How many durations were seen, their sum and the longest. */
+interface DurationStats {
+  count: number;
+  total_ms: number;
+  max_ms: number;
+}
+
+/** Activity counters, for one day or since metrics began. */
+interface MetricCounts {
+  tasks: Partial<Record<TaskMetricOutcome, number>>;
+  timeouts: number;
+  /** Executor run time of task attempts that ended */
+  task_runs: DurationStats;
+  /** Time from entering the queue, or a retry coming due, to starting */
+  queue_wait: DurationStats;
+  agent: Partial<Record<AgentMetricOutcome, number>>;
+  agent_runs: DurationStats;
+}
+
+interface DayMetrics extends MetricCounts {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+}
+
+/** A task attempt or @agent command that ended, for the dashboard. */
+interface MetricRun {
+  kind: "task" | "agent";
+  /** Task file name, or the vault-relative note an @agent command was in */
+  name: string;
+  outcome: TaskMetricOutcome | AgentMetricOutcome;
+  finished_at: string;
+  duration_ms?: number;
+  wait_ms?: number;
+  error?: string;
+}
+
+type TaskPriority = "urgent" | "high" | "normal" | "low";
+
+interface TaskMeta extends RunOverrides {
+  priority: TaskPriority;
+  tags: string[];
+  due: Date | null;
+  timeout_ms: number | null;
+  model: string | null;
+  allowed_tools: string[];
+  args: string[];
+  cwd: string | null;
+  depends_on: string[];
+  retry_attempt: number;
+  retry_after: Date | null;
+  follow_up_depth: number;
+  status: string | null;
+  claude_session: string | null;
+  prompt_template: string | null;
+  context: boolean | null;
 }
 
 interface TaskInfo {
   path: string;
   name: string;
   content: string;
+  meta: TaskMeta;
+  queuedAt: number;
+}
+
+const TASK_OUTCOMES = ["completed", "blocked", "failed", "partial"] as const;
+type TaskOutcome = (typeof TASK_OUTCOMES)[number];
+
+interface FollowUpTask {
+  title: string;
+  prompt: string;
+  depends_on?: string[];
+}
+
+/** The user's replies to a blocked task's questions. */
+interface QuestionAnswers {
+  pairs: Array<{ question: string; answer: string | null }>;
+  notes: string;
+}
+
+type DependencyStatus =
+  | { state: "ready" }
+  | { state: "waiting"; on: string[] }
+  | { state: "failed"; reason: string };
+
+/** What Claude reported back for a task, parsed from its output. */
+interface TaskResult {
+  status: TaskOutcome;
+  summary: string;
+  questions: string[];
+  files_changed: string[];
+  follow_up_tasks: FollowUpTask[];
+  structured: boolean;
+}
+
+type TaskEventType =
+  | "queued"
+  | "started"
+  | "blocked"
+  | "completed"
+  | "failed"
+  | "retrying"
+  | "interrupted"
+  | "cancelled"
+  | "paused";
+
+/**
+ * A request to stop a running task: cancel it, park it in Paused/, or (when
+ * its note was moved back to Inbox) start it again.
+ */
+interface StopRequest {
+  action: "cancel" | "pause" | "requeue";
+  reason: string;
+}
+
+interface JournalEvent {
+  ts: string;
+  task: string;
+  event: TaskEventType;
+  pid?: number;
+  attempt?: number;
+  error?: string;
+  retry_at?: string;
+  outcome?: TaskOutcome;
+  kind?: FailureKind;
+}
+
+interface JournalRecord {
+  last: JournalEvent;
+  attempts: number;
+  interruptions: number;
 }
 
 type LogLevel = "DEBUG" | "INFO" | "WARN" | "ERROR";
 
+/** Context written with a log line as JSON fields, so lines can be filtered by task or schedule. */
+interface LogFields {
+  task?: string;
+  schedule?: string;
+  /** @agent job id */
+  agent?: string;
+  /** Vault-relative path */
+  file?: string;
+  attempt?: number;
+  duration_ms?: number;
+  exit_code?: number;
+}
+
+type AgentScope = "note" | "section" | "selection";
+
+/** A named @agent variant (`@agent:summarize`) from agent_tags.agents. */
+interface AgentDefinition {
+  /** Instruction sent to Claude; `{{instruction}}` is replaced with the text after the tag */
+  prompt?: string;
+  /** Prompt template to wrap it in, instead of the default `agent` template */
+  template?: string;
+  scope?: AgentScope;
+  /** Add related vault notes to the prompt, overriding context.enabled */
+  context?: boolean;
+}
+
+/** The outgoing links and tags of a note, cached by mtime. */
+interface NoteLinks {
+  mtime_ms: number;
+  links: string[];
+  embeds: string[];
+  tags: string[];
+}
+
+export interface AgentCommand {
+  /** The command's exact text, all lines of it for blocks and callouts */
+  fullMatch: string;
+  instruction: string;
+  lineNumber: number;
+  lineCount: number;
+  form: "line" | "fence" | "callout";
+  name: string | null;
+  scope: AgentScope | null;
+}
+
+/**
+ * What the last @agent scan saw in a note, keyed by vault-relative path.
+ * Scans skip notes whose mtime and size are unchanged, and don't dispatch
+ * commands listed in `dispatched` (still running) again.
+ */
+interface AgentIndexEntry {
+  mtime_ms: number;
+  size: number;
+  hash: string;
+  dispatched: string[];
+}
+
+/** An @agent command waiting for, or holding, an @agent execution slot. */
+export interface AgentJob {
+  id: string;
+  filePath: string;
+  relPath: string;
+  key: string;
+  command: AgentCommand;
+  queuedAt: number;
+}
+
 // =============================================================================
 // Globals
 // =============================================================================
 
 const CONFIG_PATH = join(import.meta.dir, "config.json");
+const CONFIG_LOCAL_PATH = join(import.meta.dir, "config.local.json");
+/** Environment variables overriding config fields, e.g. VAULT_DAEMON_TASKS__MAX_CONCURRENT */
+const CONFIG_ENV_PREFIX = "VAULT_DAEMON_";
 const SCHEDULES_PATH = join(homedir(), ".vault-daemon-schedules.json");
+const CONTROL_PATH = join(homedir(), ".vault-daemon-control.json");
 
 let config: ResolvedConfig;
 let state: DaemonState = {
@@ -100,46 +527,149 @@ let state: DaemonState = {
   last_error: null,
   tasks_completed_today: 0,
   agent_commands_today: 0,
+  active_agent_commands: 0,
+  queued_agent_commands: 0,
   scheduled_next: null,
   scheduled_count: 0,
 };
 
+let executor: Executor;
+
 const taskQueue: TaskInfo[] = [];
-const activeProcesses: Map<string, Subprocess> = new Map();
+const activeProcesses: Map<string, ExecutorRun> = new Map();
 const pendingDebounces: Map<string, Timer> = new Map();
+const taskJournal: Map<string, JournalRecord> = new Map();
+const runningTasks: Set<string> = new Set();
+let retryTimer: Timer | null = null;
+let shuttingDown = false;
+let logFile: { size: number; startedAt: number } | null = null;
+let logWriting: Promise<void> = Promise.resolve();
+let taskWatchers: FSWatcher[] = [];
+let agentWatcher: FSWatcher | null = null;
+let agentScanTimer: Timer | null = null;
+let agentScanRunning = false;
+// CLI subcommands report problems on stderr and leave the daemon's log alone
+let cliMode = false;
 
 // Scheduler state
 let schedules: Schedule[] = [];
 const activeCronJobs: Map<string, Cron> = new Map();
+const scheduleCheckedAt: Map<string, Date> = new Map();
+let scheduleTickTimer: Timer | null = null;
+const scheduleHistory: Map<string, ScheduleRun[]> = new Map();
+const scheduleRunsByTask: Map<string, ScheduleRun> = new Map();
+const dirtyScheduleHistory: Set<string> = new Set();
+let scheduleHistorySaveTimer: Timer | null = null;
+
+// Metrics
+const metricDays: Map<string, DayMetrics> = new Map();
+let metricTotals: MetricCounts = emptyMetricCounts();
+let recentRuns: MetricRun[] = [];
+const taskRunTimes: Map<string, { queued_at?: number; started_at?: number; wait_ms?: number }> = new Map();
+let metricsSaveTimer: Timer | null = null;
+let dayRolloverTimer: Timer | null = null;
+let metricsServer: ReturnType<typeof Bun.serve> | null = null;
+
+// Control state
+let intakePaused = false;
+const stopRequests: Map<string, StopRequest> = new Map();
+let controlServer: ReturnType<typeof Bun.serve> | null = null;
+
+// Prompt templates from the vault, by name
+const promptTemplates: Map<string, string> = new Map();
+
+// Links and tags of every note, for context building, and the notes changed
+// since it was last brought up to date (null until the first full walk)
+const vaultLinkCache: Map<string, NoteLinks> = new Map();
+let staleLinkPaths: Set<string> | null = null;
+
+// @agent index and execution
+const agentIndex: Map<string, AgentIndexEntry> = new Map();
+let agentIndexSaveTimer: Timer | null = null;
+const agentQueue: AgentJob[] = [];
+const runningAgentJobs: Map<string, AgentJob> = new Map();
+const agentProcesses: Map<string, ExecutorRun> = new Map();
+const cancelledAgentJobs: Set<string> = new Set();
 
 // =============================================================================
 // Logging
 // =============================================================================
 
-async function log(level: LogLevel, message: string): Promise<void> {
-  const timestamp = new Date().toISOString();
-  const line = `[${timestamp}] [${level}] ${message}\n`;
+const LOG_LEVELS: LogLevel[] = ["DEBUG", "INFO", "WARN", "ERROR"];
+
+/**
+ * Echo log lines to the console only when someone can see them: a terminal
+ * or the systemd journal. Under launchd stdout is the log file itself.
+ */
+const CONSOLE_LOGGING = Boolean(process.stdout.isTTY || process.env.JOURNAL_STREAM);
+
+async function log(level: LogLevel, message: string, fields: LogFields = {}): Promise<void> {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(config.log_level.toUpperCase() as LogLevel)) return;
 
   // Console output
   const prefix = { DEBUG: "🔍", INFO: "ℹ️ ", WARN: "⚠️ ", ERROR: "❌" }[level];
-  console.log(`${prefix} ${message}`);
+  if (cliMode) {
+    if (level === "WARN" || level === "ERROR") console.error(`${prefix} ${message}`);
+    return;
+  }
+  if (CONSOLE_LOGGING) console.log(`${prefix} ${message}`);
+
+  // File output, one JSON object per line. Writes are chained so rotation
+  // never races an append.
+  const line = JSON.stringify({ ts: new Date().toISOString(), level, msg: message, ...fields }) + "\n";
+  logWriting = logWriting
+    .then(() => writeLogLine(line))
+    .catch((err) => console.error("Failed to write log:", err));
+  await logWriting;
+}
 
-  // File output with rotation
-  try {
-    const stats = existsSync(config.log_path) ? await stat(config.log_path) : null;
-    const maxBytes = config.log_max_size_mb * 1024 * 1024;
+async function writeLogLine(line: string): Promise<void> {
+  logFile ??= await openLogFile();
 
-    if (stats && stats.size > maxBytes) {
-      // Read file, keep last 80%
-      const content = await readFile(config.log_path, "utf-8");
-      const lines = content.split("\n");
-      const keepLines = Math.floor(lines.length * 0.8);
-      await writeFile(config.log_path, lines.slice(-keepLines).join("\n"));
-    }
+  const bytes = Buffer.byteLength(line);
+  const tooBig = logFile.size + bytes > config.log_max_size_mb * 1024 * 1024;
+  const tooOld = Date.now() - logFile.startedAt > config.log_max_age_days * 86_400_000;
+  if (logFile.size > 0 && (tooBig || tooOld)) {
+    await rotateLogs();
+    logFile = { size: 0, startedAt: Date.now() };
+  }
 
-    await appendFile(config.log_path, line);
-  } catch (err) {
-    console.error("Failed to write log:", err);
+  await appendFile(config.log_path, line);
+  logFile.size += bytes;
+}
+
+/** Size and first-line time of the current log file, read once so log() doesn't stat every line. */
+async function openLogFile(): Promise<{ size: number; startedAt: number }> {
+  if (!existsSync(config.log_path)) {
+    await mkdir(dirname(config.log_path), { recursive: true });
+    return { size: 0, startedAt: Date.now() };
+  }
+
+  const { size, mtimeMs } = await stat(config.log_path);
+  const head = await Bun.file(config.log_path).slice(0, 512).text();
+  // JSON lines, or the older "[timestamp] [LEVEL]" format
+  const ts = head.match(/^\{"ts":"([^"]+)"/)?.[1] ?? head.match(/^\[([^\]]+)\]/)?.[1];
+  const startedAt = ts ? Date.parse(ts) : NaN;
+  return { size, startedAt: Number.isNaN(startedAt) ? mtimeMs : startedAt };
+}
+
+/** Shift daemon.log → daemon.log.1 → … → daemon.log.<log_max_files>, dropping the oldest. */
+async function rotateLogs(): Promise<void> {
+  const numbered = (n: number) => `${config.log_path}.${n}`;
+
+  await unlink(numbered(config.log_max_files)).catch(() => {});
+  for (let n = config.log_max_files - 1; n >= 1; n--) {
+    if (existsSync(numbered(n))) await rename(numbered(n), numbered(n + 1));
+  }
+  if (config.log_max_files > 0) {
+    await rename(config.log_path, numbered(1));
+  } else {
+    await unlink(config.log_path);
+  }
+
+  // Rotation left files from a larger log_max_files behind
+  for (let n = config.log_max_files + 1; existsSync(numbered(n)); n++) {
+    await unlink(numbered(n)).catch(() => {});
   }
 }
 
@@ -160,52 +690,404 @@ function updateState(updates: Partial<DaemonState>): void {
   saveState();
 }
 
+// =============================================================================
+// Task Journal & Recovery
+// =============================================================================
+
+async function loadJournal(): Promise<void> {
+  taskJournal.clear();
+  if (!existsSync(config.journal_path)) return;
+
+  try {
+    const content = await readFile(config.journal_path, "utf-8");
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        indexJournalEvent(JSON.parse(line));
+      } catch {
+        // Torn write from a crash - skip the partial line
+      }
+    }
+  } catch (err) {
+    await log("ERROR", `Failed to load task journal: ${err}`);
+  }
+}
+
+function indexJournalEvent(event: JournalEvent): void {
+  const record = taskJournal.get(event.task) ?? { last: event, attempts: 0, interruptions: 0 };
+  record.last = event;
+  if (event.event === "started") record.attempts = event.attempt ?? record.attempts + 1;
+  if (event.event === "interrupted") record.interruptions++;
+  if (event.event === "completed") {
+    // A later task with the same file name starts from scratch
+    record.attempts = 0;
+    record.interruptions = 0;
+  }
+  taskJournal.set(event.task, record);
+}
+
+async function recordTaskEvent(
+  task: string,
+  event: TaskEventType,
+  details: Omit<JournalEvent, "ts" | "task" | "event"> = {}
+): Promise<void> {
+  const entry: JournalEvent = { ts: new Date().toISOString(), task, event, ...details };
+  indexJournalEvent(entry);
+  updateScheduleRun(entry);
+  updateTaskMetrics(entry);
+
+  try {
+    await appendFile(config.journal_path, JSON.stringify(entry) + "\n");
+  } catch (err) {
+    console.error("Failed to write task journal:", err);
+  }
+}
+
+/**
+ * Rewrite the journal keeping full history only for tasks that are still in
+ * flight; finished tasks keep their last event for a week.
+ */
+async function compactJournal(): Promise<void> {
+  const cutoff = Date.now() - 7 * 24 * 60 * 60 * 1000;
+
+  try {
+    const content = existsSync(config.journal_path) ? await readFile(config.journal_path, "utf-8") : "";
+    const keep = content.split("\n").filter((line) => {
+      if (!line.trim()) return false;
+      try {
+        const event: JournalEvent = JSON.parse(line);
+        const record = taskJournal.get(event.task);
+        if (!record || !["completed", "cancelled"].includes(record.last.event)) return true;
+        return event.ts === record.last.ts && new Date(event.ts).getTime() > cutoff;
+      } catch {
+        return false;
+      }
+    });
+
+    const tmpPath = `${config.journal_path}.tmp`;
+    await writeFile(tmpPath, keep.map((line) => line + "\n").join(""));
+    await rename(tmpPath, config.journal_path);
+  } catch (err) {
+    await log("WARN", `Failed to compact task journal: ${err}`);
+  }
+}
+
+/**
+ * True if pid is still running and looks like our Claude command. The
+ * command check guards against pid reuse after a reboot.
+ */
+function isOrphanedClaude(pid: number): boolean {
+  if (!executor.command) return false;
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+
+  const ps = Bun.spawnSync(["ps", "-p", String(pid), "-o", "command="]);
+  return ps.stdout.toString().includes(basename(executor.command));
+}
+
+/**
+ * Reconcile the Tasks folders against the journal after a crash or reboot:
+ * - In Progress files are requeued, or moved to Blocked as interrupted once
+ *   they've been interrupted more than tasks.max_recoveries times
+ * - Blocked files edited while the daemon was down are requeued
+ * Inbox needs no work: the Inbox watcher picks up existing files on start.
+ */
+async function recoverTasks(): Promise<void> {
+  const inProgressDir = join(config.vault_path, "Tasks", "In Progress");
+  const blockedDir = join(config.vault_path, "Tasks", "Blocked");
+  let recovered = 0;
+
+  const inProgress = existsSync(inProgressDir) ? await readdir(inProgressDir) : [];
+  for (const fileName of inProgress.filter((f) => f.endsWith(".md"))) {
+    const filePath = join(inProgressDir, fileName);
+    const record = taskJournal.get(fileName);
+    const pid = record?.last.event === "started" ? record.last.pid : undefined;
+
+    if (pid && isOrphanedClaude(pid)) {
+      await log("WARN", `Killing orphaned Claude process ${pid} for ${fileName}`);
+      try {
+        process.kill(pid);
+      } catch {
+        // Exited in the meantime
+      }
+    }
+
+    // A clean shutdown already journaled the interruption
+    const alreadyRecorded = record?.last.event === "interrupted";
+    const interruptions = alreadyRecorded ? record.interruptions : (record?.interruptions ?? 0) + 1;
+
+    try {
+      if (interruptions > config.tasks.max_recoveries) {
+        const content = updateFrontmatter(await readFile(filePath, "utf-8"), {
+          status: "interrupted",
+          interrupted_at: new Date().toISOString(),
+        });
+        await writeFile(filePath, `${content.trimEnd()}
+
+---
+
+## Interrupted
+
+The daemon stopped while this task was running ${interruptions} times, so it was not retried automatically.
+
+<!-- Move back to Inbox to retry -->`);
+        await moveTask(filePath, "Blocked");
+        await log("WARN", `Task interrupted too many times, moved to Blocked: ${fileName}`);
+      } else {
+        await moveTask(filePath, "Inbox");
+        await log("INFO", `Requeued interrupted task: ${fileName}`);
+      }
+      if (!alreadyRecorded) {
+        await recordTaskEvent(fileName, "interrupted", { attempt: record?.attempts });
+      }
+      recovered++;
+    } catch (err) {
+      await log("ERROR", `Failed to recover task ${fileName}: ${err}`);
+    }
+  }
+
+  const blocked = existsSync(blockedDir) ? await readdir(blockedDir) : [];
+  for (const fileName of blocked.filter((f) => f.endsWith(".md"))) {
+    const record = taskJournal.get(fileName);
+    if (!record || !["blocked", "failed", "interrupted"].includes(record.last.event)) continue;
+
+    const filePath = join(blockedDir, fileName);
+    const { mtimeMs } = await stat(filePath);
+
+    // The daemon writes the file just before recording the event, so only
+    // edits clearly after it are the user's
+    if (mtimeMs > new Date(record.last.ts).getTime() + 1000) {
+      await moveTask(filePath, "Inbox");
+      await log("INFO", `Re-queued blocked task edited while stopped: ${fileName}`);
+      recovered++;
+    }
+  }
+
+  if (recovered > 0) {
+    await log("INFO", `Recovered ${recovered} tasks from previous run`);
+  }
+
+  await compactJournal();
+}
+
 // =============================================================================
 // Scheduling System
 // =============================================================================
 
+/** Load the JSON schedules file and the schedule notes in the vault. */
 async function loadSchedules(): Promise<void> {
+  let fileSchedules: Schedule[] = [];
   try {
     if (existsSync(SCHEDULES_PATH)) {
       const content = await readFile(SCHEDULES_PATH, "utf-8");
       const data: SchedulesFile = JSON.parse(content);
-      schedules = data.schedules || [];
-      await log("INFO", `Loaded ${schedules.length} schedules`);
+      fileSchedules = data.schedules || [];
+      await log("INFO", `Loaded ${fileSchedules.length} schedules`);
     } else {
-      schedules = [];
       // Create empty schedules file
       await writeFile(SCHEDULES_PATH, JSON.stringify({ schedules: [] }, null, 2));
       await log("INFO", "Created empty schedules file");
     }
   } catch (err) {
     await log("ERROR", `Failed to load schedules: ${err}`);
-    schedules = [];
   }
+
+  const ids = new Set(fileSchedules.map((schedule) => schedule.id));
+  const noteSchedules: Schedule[] = [];
+  for (const schedule of await loadScheduleNotes()) {
+    if (ids.has(schedule.id)) {
+      await log("WARN", `Schedule note ${schedule.note} reuses id "${schedule.id}", ignoring it`);
+      continue;
+    }
+    ids.add(schedule.id);
+    noteSchedules.push(schedule);
+  }
+
+  schedules = [...fileSchedules, ...noteSchedules];
 }
 
 async function saveSchedules(): Promise<void> {
   try {
-    await writeFile(SCHEDULES_PATH, JSON.stringify({ schedules }, null, 2));
+    const fileSchedules = schedules.filter((schedule) => !schedule.note);
+    await writeFile(SCHEDULES_PATH, JSON.stringify({ schedules: fileSchedules }, null, 2));
   } catch (err) {
     await log("ERROR", `Failed to save schedules: ${err}`);
   }
 }
 
-function getNextScheduledRun(): ScheduledNext | null {
-  let nextRun: { schedule: Schedule; time: Date } | null = null;
+/**
+ * Schedules defined as notes in the schedules folder: timing, policies and
+ * overrides in the frontmatter (the same fields as the JSON file, plus task
+ * frontmatter's `timeout`), the prompt in the body.
+ */
+async function loadScheduleNotes(): Promise<Schedule[]> {
+  const loaded: Schedule[] = [];
+  if (!existsSync(config.schedules.dir)) return loaded;
 
-  for (const schedule of schedules) {
-    if (!schedule.enabled) continue;
+  try {
+    for (const file of await readdir(config.schedules.dir)) {
+      if (!file.endsWith(".md")) continue;
+      const filePath = join(config.schedules.dir, file);
+      const [content, info] = await Promise.all([readFile(filePath, "utf-8"), stat(filePath)]);
+      // Not every filesystem records a birth time
+      const created = info.birthtime.getTime() > 0 ? info.birthtime : info.mtime;
+      loaded.push(parseScheduleNote(relative(config.vault_path, filePath), content, created));
+    }
+    if (loaded.length > 0) {
+      await log("INFO", `Loaded ${loaded.length} schedule notes`);
+    }
+  } catch (err) {
+    await log("ERROR", `Failed to load schedule notes: ${err}`);
+  }
+  return loaded;
+}
 
-    try {
-      const cron = new Cron(schedule.cron);
-      const next = cron.nextRun();
+function parseScheduleNote(relPath: string, content: string, created: Date): Schedule {
+  const { data, body } = parseFrontmatter(content);
+  const meta = parseTaskMeta(data);
+  // Leave wrong types in place as strings so validateSchedule reports them
+  const field = (key: string) => (data[key] === undefined || data[key] === null ? undefined : String(data[key]));
 
-      if (next && (!nextRun || next < nextRun.time)) {
-        nextRun = { schedule, time: next };
-      }
+  return {
+    id: field("id") ?? relPath.replace(/\.md$/, ""),
+    name: field("name") ?? basename(relPath, ".md"),
+    prompt: body.trim(),
+    cron: field("cron"),
+    run_at: field("run_at"),
+    timezone: field("timezone"),
+    catch_up: field("catch_up") as CatchUpPolicy | undefined,
+    overlap: field("overlap") as OverlapPolicy | undefined,
+    end_at: field("end_at"),
+    max_runs: field("max_runs") === undefined ? undefined : Number(data.max_runs),
+    run_count: typeof data.run_count === "number" ? data.run_count : undefined,
+    enabled: data.enabled !== false,
+    lastRun: field("last_run"),
+    createdAt: created.toISOString(),
+    model: meta.model,
+    allowed_tools: meta.allowed_tools,
+    args: meta.args,
+    cwd: meta.cwd,
+    timeout_ms: meta.timeout_ms,
+    prompt_template: meta.prompt_template ?? undefined,
+    note: relPath,
+  };
+}
+
+/**
+ * Write a schedule note's run state, or what's wrong with it, into its
+ * frontmatter. Unchanged notes aren't rewritten, so the reload each write
+ * triggers settles.
+ */
+async function syncScheduleNote(schedule: Schedule): Promise<void> {
+  if (!schedule.note) return;
+  const filePath = join(config.vault_path, schedule.note);
+
+  try {
+    const content = await readFile(filePath, "utf-8");
+    const updated = updateFrontmatter(content, {
+      schedule_error: validateSchedule(schedule) ?? undefined,
+      last_run: schedule.lastRun,
+      next_run: nextScheduleRun(schedule)?.toISOString(),
+      run_count: schedule.run_count,
+    });
+    if (updated !== content) await writeFile(filePath, updated);
+  } catch (err) {
+    await log("ERROR", `Failed to update schedule note ${schedule.note}: ${err}`);
+  }
+}
+
+function isScheduleNotePath(filePath: string): boolean {
+  return filePath === config.schedules.dir || filePath.startsWith(config.schedules.dir + "/");
+}
+
+/** How late a run can start and still count as on time rather than missed. */
+const SCHEDULE_GRACE_MS = 5 * 60 * 1000;
+/** Catches runs missed while the machine slept, which timers don't notice. */
+const SCHEDULE_TICK_MS = 60 * 1000;
+/** Upper bound on the tasks one `catch_up: all` pass creates. */
+const MAX_CATCH_UP_RUNS = 50;
+
+const CATCH_UP_POLICIES: CatchUpPolicy[] = ["skip", "once", "all"];
+const OVERLAP_POLICIES: OverlapPolicy[] = ["skip", "queue"];
+
+/** Why a schedule can't be run, or null if it's valid. */
+function validateSchedule(schedule: Schedule): string | null {
+  if (!schedule.prompt?.trim()) return "Schedule has no prompt";
+  if (!schedule.cron === !schedule.run_at) return "Set exactly one of cron or run_at";
+  if (schedule.catch_up && !CATCH_UP_POLICIES.includes(schedule.catch_up)) {
+    return `catch_up must be one of ${CATCH_UP_POLICIES.join(", ")}`;
+  }
+  if (schedule.overlap && !OVERLAP_POLICIES.includes(schedule.overlap)) {
+    return `overlap must be one of ${OVERLAP_POLICIES.join(", ")}`;
+  }
+  if (schedule.end_at && isNaN(Date.parse(schedule.end_at))) return `Invalid end_at: ${schedule.end_at}`;
+  if (schedule.timezone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: schedule.timezone });
     } catch {
-      // Invalid cron expression
+      return `Unknown timezone: ${schedule.timezone}`;
+    }
+  }
+  if (schedule.max_runs !== undefined && !(Number.isInteger(schedule.max_runs) && schedule.max_runs > 0)) {
+    return "max_runs must be a positive integer";
+  }
+
+  try {
+    createScheduleCron(schedule).nextRun();
+  } catch (err) {
+    return schedule.cron ? `Invalid cron "${schedule.cron}": ${err}` : `Invalid run_at "${schedule.run_at}": ${err}`;
+  }
+  return null;
+}
+
+/** A croner job for the schedule's cron or run_at, in its time zone. */
+function createScheduleCron(schedule: Schedule, onTrigger?: () => void): Cron {
+  const pattern = (schedule.cron ?? schedule.run_at) as string;
+  const options = { timezone: schedule.timezone, paused: !onTrigger };
+  return onTrigger ? new Cron(pattern, options, onTrigger) : new Cron(pattern, options);
+}
+
+/** Whether a one-shot has run, or the schedule has passed its end date or used up its runs. */
+function isScheduleFinished(schedule: Schedule, now = new Date()): boolean {
+  if (schedule.run_at && (schedule.run_count ?? 0) > 0) return true;
+  if (schedule.max_runs !== undefined && (schedule.run_count ?? 0) >= schedule.max_runs) return true;
+  if (schedule.end_at && now.getTime() > Date.parse(schedule.end_at)) return true;
+  return false;
+}
+
+/** Occurrences in (from, to], stopping at end_at. */
+function scheduleOccurrences(schedule: Schedule, from: Date, to: Date): Date[] {
+  const cron = createScheduleCron(schedule);
+  const end = schedule.end_at ? Math.min(Date.parse(schedule.end_at), to.getTime()) : to.getTime();
+  const times: Date[] = [];
+
+  let next = cron.nextRun(from);
+  while (next && next.getTime() <= end) {
+    times.push(next);
+    // Beyond what any policy would run; the oldest ones are skipped anyway
+    if (times.length > MAX_CATCH_UP_RUNS) times.shift();
+    next = cron.nextRun(next);
+  }
+  return times;
+}
+
+function nextScheduleRun(schedule: Schedule): Date | null {
+  if (!schedule.enabled || isScheduleFinished(schedule) || validateSchedule(schedule)) return null;
+  const next = createScheduleCron(schedule).nextRun();
+  if (!next || (schedule.end_at && next.getTime() > Date.parse(schedule.end_at))) return null;
+  return next;
+}
+
+function getNextScheduledRun(): ScheduledNext | null {
+  let nextRun: { schedule: Schedule; time: Date } | null = null;
+
+  for (const schedule of schedules) {
+    const next = nextScheduleRun(schedule);
+    if (next && (!nextRun || next < nextRun.time)) {
+      nextRun = { schedule, time: next };
     }
   }
 
@@ -222,41 +1104,171 @@ function getNextScheduledRun(): ScheduledNext | null {
 
 function updateScheduledNext(): void {
   const next = getNextScheduledRun();
-  const enabledCount = schedules.filter(s => s.enabled).length;
+  const enabledCount = schedules.filter(s => s.enabled && !isScheduleFinished(s)).length;
   updateState({
     scheduled_next: next,
     scheduled_count: enabledCount,
   });
 }
 
-async function executeScheduledTask(schedule: Schedule): Promise<void> {
-  await log("INFO", `Executing scheduled task: ${schedule.name}`);
+/** A task this schedule created that is still in Inbox or In Progress. */
+async function findActiveScheduledTask(schedule: Schedule): Promise<string | null> {
+  for (const folder of ["Inbox", "In Progress"]) {
+    const dir = join(config.vault_path, "Tasks", folder);
+    if (!existsSync(dir)) continue;
+
+    for (const file of await readdir(dir)) {
+      if (!file.startsWith("[scheduled] ") || !file.endsWith(".md")) continue;
+      try {
+        const { data } = parseFrontmatter(await readFile(join(dir, file), "utf-8"));
+        if (data.scheduled_task === schedule.id) return file;
+      } catch {
+        // Moved while we looked
+      }
+    }
+  }
+  return null;
+}
 
-  // Create a task file in Inbox with [scheduled] prefix
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
-  const safeName = schedule.name.replace(/[^a-zA-Z0-9-_ ]/g, "").slice(0, 30);
-  const taskFileName = `[scheduled] ${safeName} ${timestamp}.md`;
-  const taskPath = join(config.vault_path, "Tasks", "Inbox", taskFileName);
+/**
+ * Which of a schedule's occurrences between since and now to run. The latest
+ * runs if it's within the grace period; older ones were missed (daemon
+ * stopped, machine asleep) and are run according to catch_up, then capped by
+ * max_runs. skipped counts the missed runs catch_up left out.
+ */
+export function planScheduleRuns(schedule: Schedule, since: Date, now: Date): { runs: Date[]; missed: Date[]; skipped: number } {
+  const due = scheduleOccurrences(schedule, since, now);
+  if (due.length === 0) return { runs: [], missed: [], skipped: 0 };
+
+  const latest = due[due.length - 1];
+  const onTime = now.getTime() - latest.getTime() <= SCHEDULE_GRACE_MS ? due.pop()! : null;
+  const missed = due;
+
+  // An on-time run also stands in for a single catch-up run
+  const policy = schedule.catch_up ?? "skip";
+  let runs = policy === "all" ? missed : policy === "once" && !onTime ? missed.slice(-1) : [];
+  if (onTime) runs = [...runs, onTime];
+  const skipped = missed.length - runs.filter((time) => time !== onTime).length;
+
+  if (schedule.max_runs !== undefined) {
+    runs = runs.slice(-(schedule.max_runs - (schedule.run_count ?? 0)));
+  }
+  return { runs, missed, skipped };
+}
 
-  const taskContent = `---
-scheduled_task: ${schedule.id}
-scheduled_name: ${schedule.name}
+/**
+ * Run whatever the schedule has due since it was last checked, as
+ * planScheduleRuns picks it. Safe to call at any time: the checked window
+ * only moves forward.
+ */
+async function checkSchedule(schedule: Schedule): Promise<void> {
+  if (!schedule.enabled || isScheduleFinished(schedule)) return;
+
+  const now = new Date();
+  const since = scheduleCheckedAt.get(schedule.id)
+    ?? new Date(schedule.lastRun ?? schedule.createdAt ?? now.toISOString());
+  scheduleCheckedAt.set(schedule.id, now);
+
+  const { runs, missed, skipped } = planScheduleRuns(schedule, since, now);
+  const policy = schedule.catch_up ?? "skip";
+  if (skipped > 0) {
+    await log("INFO", `Schedule "${schedule.name}" missed ${skipped} run(s) since ${since.toLocaleString()} (catch_up: ${policy})`);
+    recordScheduleRun(schedule, {
+      task: null,
+      scheduled_for: missed[missed.length - 1].toISOString(),
+      outcome: "skipped",
+      error: `Missed ${skipped} run(s) while stopped or asleep`,
+    });
+  }
+
+  if (runs.length === 0) return;
+
+  if ((schedule.overlap ?? "skip") === "skip") {
+    const active = await findActiveScheduledTask(schedule);
+    if (active) {
+      await log("INFO", `Skipping schedule "${schedule.name}": previous run ${active} hasn't finished`);
+      recordScheduleRun(schedule, {
+        task: null,
+        scheduled_for: runs[runs.length - 1].toISOString(),
+        outcome: "skipped",
+        error: `Previous run ${active} hadn't finished`,
+      });
+      return;
+    }
+  }
+
+  await executeScheduledTask(schedule, runs);
+}
+
+async function checkAllSchedules(): Promise<void> {
+  for (const schedule of schedules) {
+    if (activeCronJobs.has(schedule.id)) await checkSchedule(schedule);
+  }
+}
+
+/**
+ * Create one Inbox task per run time (now, by default), then record the runs
+ * on the schedule.
+ */
+async function executeScheduledTask(schedule: Schedule, runs: Date[] = [new Date()]): Promise<void> {
+  let created = 0;
+
+  for (const runAt of runs) {
+    await log("INFO", `Executing scheduled task: ${schedule.name}`, { schedule: schedule.id });
+
+    // Create a task file in Inbox with [scheduled] prefix; named after the
+    // run time so catch-up runs created together don't collide
+    const timestamp = runAt.toISOString().replace(/[:.]/g, "-").slice(0, 19);
+    const safeName = schedule.name.replace(/[^a-zA-Z0-9-_ ]/g, "").slice(0, 30);
+    const taskFileName = `[scheduled] ${safeName} ${timestamp}.md`;
+    const taskPath = join(config.vault_path, "Tasks", "Inbox", taskFileName);
+
+    // Carry the schedule's overrides into the task so they're applied (and
+    // validated) exactly like hand-written task frontmatter
+    const overrideLines = [
+      schedule.model ? `model: ${schedule.model}` : null,
+      schedule.timeout_ms ? `timeout: ${schedule.timeout_ms}ms` : null,
+      schedule.allowed_tools?.length ? `allowed_tools: [${schedule.allowed_tools.join(", ")}]` : null,
+      schedule.args?.length ? `args: [${schedule.args.join(", ")}]` : null,
+      schedule.cwd ? `cwd: ${schedule.cwd}` : null,
+      schedule.prompt_template ? `prompt_template: ${schedule.prompt_template}` : null,
+    ].filter((line): line is string => line !== null);
+
+    const taskContent = `---
+scheduled_task: ${schedule.id}
+scheduled_name: ${schedule.name}
+scheduled_for: ${runAt.toISOString()}
 scheduled_at: ${new Date().toISOString()}
----
+${overrideLines.map((line) => `${line}\n`).join("")}---
 
 ${schedule.prompt}
 `;
 
-  try {
-    await writeFile(taskPath, taskContent);
-    await log("INFO", `Created scheduled task file: ${taskFileName}`);
+    try {
+      await writeFile(taskPath, taskContent);
+      await log("INFO", `Created scheduled task file: ${taskFileName}`, { schedule: schedule.id, task: taskFileName });
+      recordScheduleRun(schedule, { task: taskFileName, scheduled_for: runAt.toISOString(), outcome: "pending" });
+      created++;
+    } catch (err) {
+      await log("ERROR", `Failed to create scheduled task: ${err}`, { schedule: schedule.id });
+    }
+  }
+
+  if (created === 0) return;
 
-    // Update lastRun
-    schedule.lastRun = new Date().toISOString();
+  schedule.lastRun = new Date().toISOString();
+  schedule.run_count = (schedule.run_count ?? 0) + created;
+  if (schedule.note) {
+    await syncScheduleNote(schedule);
+  } else {
     await saveSchedules();
-    updateScheduledNext();
-  } catch (err) {
-    await log("ERROR", `Failed to create scheduled task: ${err}`);
+  }
+  updateScheduledNext();
+
+  if (isScheduleFinished(schedule)) {
+    activeCronJobs.get(schedule.id)?.stop();
+    activeCronJobs.delete(schedule.id);
+    await log("INFO", `Schedule "${schedule.name}" finished after ${schedule.run_count} run(s)`, { schedule: schedule.id });
   }
 }
 
@@ -271,22 +1283,35 @@ async function setupScheduler(): Promise<void> {
   for (const schedule of schedules) {
     if (!schedule.enabled) continue;
 
-    try {
-      const job = new Cron(schedule.cron, async () => {
-        await executeScheduledTask(schedule);
-      });
+    const problem = validateSchedule(schedule);
+    if (problem) {
+      await log("ERROR", `Invalid schedule "${schedule.name}": ${problem}`);
+      continue;
+    }
+    if (isScheduleFinished(schedule)) continue;
 
-      activeCronJobs.set(schedule.id, job);
+    const job = createScheduleCron(schedule, () => {
+      checkSchedule(schedule).catch((err) => log("ERROR", `Schedule "${schedule.name}" failed: ${err}`));
+    });
+    activeCronJobs.set(schedule.id, job);
 
-      const nextRun = job.nextRun();
-      await log("INFO", `Scheduled "${schedule.name}" - next run: ${nextRun?.toLocaleString() || "unknown"}`);
-    } catch (err) {
-      await log("ERROR", `Invalid cron for schedule "${schedule.name}": ${schedule.cron}`);
-    }
+    const nextRun = nextScheduleRun(schedule);
+    await log("INFO", `Scheduled "${schedule.name}" - next run: ${nextRun?.toLocaleString() || "none"}`);
   }
 
   updateScheduledNext();
   await log("INFO", `Scheduler started with ${activeCronJobs.size} active schedules`);
+
+  for (const schedule of schedules) {
+    await syncScheduleNote(schedule);
+  }
+
+  // Runs missed while the daemon was stopped
+  await checkAllSchedules();
+
+  scheduleTickTimer ??= setInterval(() => {
+    checkAllSchedules().catch((err) => log("ERROR", `Schedule check failed: ${err}`));
+  }, SCHEDULE_TICK_MS);
 }
 
 function setupScheduleFileWatcher(): void {
@@ -309,327 +1334,3227 @@ function setupScheduleFileWatcher(): void {
     await loadSchedules();
     await setupScheduler();
   });
-}
 
-// =============================================================================
-// Task Execution
-// =============================================================================
+  const noteWatcher = watch(config.schedules.dir, {
+    ignoreInitial: true,
+    depth: 0,
+    awaitWriteFinish: {
+      stabilityThreshold: 500,
+      pollInterval: 100,
+    },
+  });
 
-async function moveTask(taskPath: string, toFolder: string): Promise<string> {
-  const fileName = basename(taskPath);
-  const newPath = join(config.vault_path, "Tasks", toFolder, fileName);
-  await rename(taskPath, newPath);
-  await log("INFO", `Moved task to ${toFolder}: ${fileName}`);
-  return newPath;
+  noteWatcher.on("all", async (event, filePath) => {
+    if (!filePath.endsWith(".md")) return;
+    await log("INFO", `Schedule note ${event}: ${basename(filePath)}, reloading...`);
+    await loadSchedules();
+    await setupScheduler();
+  });
 }
 
-async function executeTask(task: TaskInfo): Promise<void> {
-  const taskName = basename(task.path);
-  await log("INFO", `Starting task: ${taskName}`);
-
-  // Move to In Progress
-  const inProgressPath = await moveTask(task.path, "In Progress");
+// =============================================================================
+// Schedule History
+// =============================================================================
 
-  updateState({
-    status: "working",
-    active_tasks: state.active_tasks + 1,
-  });
+/** How many of each schedule's latest runs go into the state file. */
+const STATE_SCHEDULE_RUNS = 5;
+
+const RUN_OUTCOME_LABELS: Record<ScheduleRunOutcome, string> = {
+  pending: "⏳ pending",
+  running: "▶️ running",
+  completed: "✅ completed",
+  partial: "🟡 partial",
+  blocked: "❓ blocked",
+  failed: "❌ failed",
+  interrupted: "⚠️ interrupted",
+  cancelled: "🚫 cancelled",
+  paused: "⏸️ paused",
+  skipped: "⏭️ skipped",
+};
 
+async function loadScheduleHistory(): Promise<void> {
   try {
-    // Build prompt for Claude
-    const prompt = `You are executing a task from the user's Obsidian vault task queue.
+    if (existsSync(config.schedule_history_path)) {
+      const data = JSON.parse(await readFile(config.schedule_history_path, "utf-8")) as { runs?: Record<string, ScheduleRun[]> };
+      for (const [id, runs] of Object.entries(data.runs ?? {})) {
+        scheduleHistory.set(id, runs);
+        for (const run of runs) {
+          if (run.task) scheduleRunsByTask.set(run.task, run);
+        }
+      }
+    }
+  } catch (err) {
+    await log("WARN", `Failed to load schedule history, starting fresh: ${err}`);
+  }
+  updateState({ schedule_runs: latestScheduleRuns() });
+}
 
-TASK FILE: ${taskName}
-TASK CONTENT:
-${task.content}
+async function saveScheduleHistory(): Promise<void> {
+  if (scheduleHistorySaveTimer) clearTimeout(scheduleHistorySaveTimer);
+  scheduleHistorySaveTimer = null;
 
-INSTRUCTIONS:
-1. Read the task carefully and execute what is requested
-2. Work within the Obsidian vault at: ${config.vault_path}
-3. If you need clarification, respond with questions in a specific format (see below)
-4. When complete, summarize what you did
+  try {
+    const tmpPath = `${config.schedule_history_path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify({ version: 1, runs: Object.fromEntries(scheduleHistory) }));
+    await rename(tmpPath, config.schedule_history_path);
+  } catch (err) {
+    await log("WARN", `Failed to save schedule history: ${err}`);
+  }
 
-If you have questions that BLOCK your progress, output them in this exact format:
----
-## Questions from Claude
-1. [Your question]
-2. [Another question if needed]
-<!-- Answer below or edit the task description above, then save -->
+  const changed = [...dirtyScheduleHistory];
+  dirtyScheduleHistory.clear();
+  if (!config.schedules.history_notes) return;
 
-Otherwise, complete the task and provide a summary of what was accomplished.`;
+  for (const id of changed) {
+    const schedule = schedules.find((s) => s.id === id);
+    if (schedule) await writeScheduleHistoryNote(schedule);
+  }
+}
 
-    // Spawn Claude
-    const proc = spawn({
-      cmd: [config.claude.command, ...config.claude.args, "-p", prompt],
-      cwd: config.vault_path,
-      stdout: "pipe",
-      stderr: "pipe",
-    });
+function scheduleHistoryChanged(scheduleId: string): void {
+  dirtyScheduleHistory.add(scheduleId);
+  updateState({ schedule_runs: latestScheduleRuns() });
+  if (!scheduleHistorySaveTimer) scheduleHistorySaveTimer = setTimeout(saveScheduleHistory, 1000);
+}
 
-    activeProcesses.set(taskName, proc);
+function latestScheduleRuns(): Record<string, ScheduleRun[]> {
+  return Object.fromEntries(
+    [...scheduleHistory].map(([id, runs]) => [id, runs.slice(-STATE_SCHEDULE_RUNS).reverse()])
+  );
+}
 
-    // Set timeout
-    const timeout = setTimeout(() => {
-      proc.kill();
-      log("WARN", `Task timed out: ${taskName}`);
-    }, config.claude.timeout_ms);
+function recordScheduleRun(
+  schedule: Schedule,
+  details: Pick<ScheduleRun, "task" | "scheduled_for" | "outcome" | "error">
+): void {
+  const run: ScheduleRun = {
+    run_id: randomBytes(4).toString("hex"),
+    schedule_id: schedule.id,
+    created_at: new Date().toISOString(),
+    ...details,
+  };
 
-    // Wait for completion
-    const exitCode = await proc.exited;
-    clearTimeout(timeout);
-    activeProcesses.delete(taskName);
+  const runs = scheduleHistory.get(schedule.id) ?? [];
+  runs.push(run);
+  for (const old of runs.splice(0, Math.max(0, runs.length - config.schedules.history_limit))) {
+    if (old.task) scheduleRunsByTask.delete(old.task);
+  }
+  scheduleHistory.set(schedule.id, runs);
+  if (run.task) scheduleRunsByTask.set(run.task, run);
 
-    const stdout = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
+  scheduleHistoryChanged(schedule.id);
+}
 
-    if (exitCode !== 0) {
-      throw new Error(`Claude exited with code ${exitCode}: ${stderr}`);
-    }
+/**
+ * Follow a scheduled task through the journal. The latest event wins, so a
+ * blocked run that is answered and then completes ends up completed.
+ */
+function updateScheduleRun(event: JournalEvent): void {
+  const run = scheduleRunsByTask.get(event.task);
+  if (!run) return;
+
+  switch (event.event) {
+    case "queued":
+      return;
+    case "started":
+      run.outcome = "running";
+      run.started_at ??= event.ts;
+      break;
+    case "retrying":
+      run.outcome = "pending";
+      run.error = event.error;
+      break;
+    case "interrupted":
+      run.outcome = "interrupted";
+      break;
+    default:
+      run.outcome = event.event === "completed" ? event.outcome ?? "completed" : event.event;
+      run.finished_at = event.ts;
+      run.duration_ms = run.started_at ? Date.parse(event.ts) - Date.parse(run.started_at) : undefined;
+      run.error = event.event === "completed" ? undefined : event.error;
+  }
 
-    // Check if Claude is blocked (has questions)
-    if (stdout.includes("## Questions from Claude")) {
-      // Append questions to task file and move to Blocked
-      const blockedContent = `${task.content}
+  scheduleHistoryChanged(run.schedule_id);
+}
 
----
-status: blocked
-blocked_at: ${new Date().toISOString()}
----
+function scheduleHistoryNotePath(schedule: Schedule): string {
+  return join(config.schedules.dir, "History", `${schedule.name.replace(/[\\/:*?"<>|#^[\]]/g, "-")}.md`);
+}
 
-${stdout}`;
+/** Where a task note is now, searching the task folders. */
+function findTaskNote(name: string): string | null {
+  for (const folder of TASK_FOLDERS) {
+    const filePath = join(config.vault_path, "Tasks", folder, name);
+    if (existsSync(filePath)) return filePath;
+  }
+  return null;
+}
 
-      await writeFile(inProgressPath, blockedContent);
-      await moveTask(inProgressPath, "Blocked");
-      await log("INFO", `Task blocked with questions: ${taskName}`);
+function formatRunDuration(ms: number | undefined): string {
+  if (ms === undefined) return "";
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
 
-      updateState({
-        status: state.active_tasks > 1 ? "working" : "blocked",
-        active_tasks: state.active_tasks - 1,
-      });
-    } else {
-      // Task completed - append summary and move to Completed
-      const completedContent = `${task.content}
+/**
+ * Rewrite a schedule's history note: one table row per run, newest first,
+ * linking to each task wherever it is now. The note is fully generated.
+ */
+async function writeScheduleHistoryNote(schedule: Schedule): Promise<void> {
+  const notePath = scheduleHistoryNotePath(schedule);
+  const runs = [...(scheduleHistory.get(schedule.id) ?? [])].reverse();
+  const cell = (text: string) => text.replace(/\s+/g, " ").replace(/\|/g, "\\|").slice(0, 160);
+
+  const rows = runs.map((run) => {
+    const taskPath = run.task ? findTaskNote(run.task) : null;
+    // Without the [scheduled] prefix, whose brackets would break the link
+    const label = cell((run.task ?? "").replace(/^\[scheduled\] /, "").replace(/\.md$/, ""));
+    const task = taskPath ? `[${label}](<${relative(dirname(notePath), taskPath)}>)` : label;
+    const scheduledFor = new Date(run.scheduled_for).toLocaleString("en-CA", { hour12: false }).replace(",", "");
+    return `| ${scheduledFor} | ${RUN_OUTCOME_LABELS[run.outcome] ?? run.outcome} | ${formatRunDuration(run.duration_ms)} | ${task} | ${cell(run.error ?? "")} |`;
+  });
 
----
-completed_at: ${new Date().toISOString()}
+  const content = `---
+schedule: ${formatFrontmatterValue(schedule.id)}
+updated: ${new Date().toISOString()}
 ---
 
-## Completion Summary
+# ${schedule.name} - Run History
 
-${stdout}`;
+<!-- Maintained by the vault daemon; edits are overwritten -->
 
-      await writeFile(inProgressPath, completedContent);
-      await moveTask(inProgressPath, "Completed");
-      await log("INFO", `Task completed: ${taskName}`);
+| Scheduled for | Outcome | Duration | Task | Error |
+|---------------|---------|----------|------|-------|
+${rows.join("\n")}
+`;
 
-      updateState({
-        status: state.active_tasks > 1 ? "working" : "idle",
-        active_tasks: state.active_tasks - 1,
-        tasks_completed_today: state.tasks_completed_today + 1,
-      });
-    }
+  try {
+    await mkdir(dirname(notePath), { recursive: true });
+    await writeFile(notePath, content);
   } catch (err) {
-    const errorMsg = err instanceof Error ? err.message : String(err);
-    await log("ERROR", `Task failed: ${taskName} - ${errorMsg}`);
+    await log("ERROR", `Failed to write schedule history note for "${schedule.name}": ${err}`);
+  }
+}
 
-    // Append error and move to Blocked
-    const errorContent = `${task.content}
+// =============================================================================
+// Metrics
+// =============================================================================
 
----
-status: error
-error_at: ${new Date().toISOString()}
----
+const TASK_METRIC_OUTCOMES: TaskMetricOutcome[] = ["completed", "partial", "blocked", "failed", "retried", "cancelled", "paused", "interrupted"];
+const AGENT_METRIC_OUTCOMES: AgentMetricOutcome[] = ["completed", "failed", "cancelled"];
+/** Runs kept for the dashboard; metrics.recent_runs of them are shown */
+const RECENT_RUNS_KEPT = 200;
+const DASHBOARD_DAYS = 14;
 
-## Error
+function emptyMetricCounts(): MetricCounts {
+  return {
+    tasks: {},
+    timeouts: 0,
+    task_runs: { count: 0, total_ms: 0, max_ms: 0 },
+    queue_wait: { count: 0, total_ms: 0, max_ms: 0 },
+    agent: {},
+    agent_runs: { count: 0, total_ms: 0, max_ms: 0 },
+  };
+}
 
-\`\`\`
-${errorMsg}
-\`\`\`
+function addDuration(stats: DurationStats, ms: number): void {
+  stats.count++;
+  stats.total_ms += ms;
+  stats.max_ms = Math.max(stats.max_ms, ms);
+}
 
-<!-- Fix the issue and move back to Inbox to retry -->`;
+function localDateKey(date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
 
-    try {
-      await writeFile(inProgressPath, errorContent);
-      await moveTask(inProgressPath, "Blocked");
-    } catch {
-      // File might have been moved already
+/** Today's counters; the first call after midnight starts a new day. */
+function todayMetrics(): DayMetrics {
+  const date = localDateKey();
+  let day = metricDays.get(date);
+  if (!day) {
+    day = { date, ...emptyMetricCounts() };
+    metricDays.set(date, day);
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - config.metrics.retention_days);
+    for (const key of metricDays.keys()) {
+      if (key < localDateKey(cutoff)) metricDays.delete(key);
     }
-
-    updateState({
-      status: state.active_tasks > 1 ? "working" : "error",
-      active_tasks: Math.max(0, state.active_tasks - 1),
-      last_error: errorMsg,
-    });
   }
+  return day;
 }
 
-async function processTaskQueue(): Promise<void> {
-  while (taskQueue.length > 0 && state.active_tasks < config.tasks.max_concurrent) {
-    const task = taskQueue.shift();
-    if (task) {
-      executeTask(task); // Don't await - run concurrently
-    }
-  }
+/** Apply a change to today's counters and the all-time totals. */
+function countMetric(update: (counts: MetricCounts) => void): void {
+  update(todayMetrics());
+  update(metricTotals);
 }
 
-// =============================================================================
-// @agent Tag Processing
-// =============================================================================
+function recordMetricRun(run: MetricRun): void {
+  recentRuns.push(run);
+  recentRuns.splice(0, Math.max(0, recentRuns.length - RECENT_RUNS_KEPT));
+  metricsChanged();
+}
 
-/**
- * Extract real @agent commands from markdown content.
- * Filters out:
- * - Content inside fenced code blocks (```)
- * - Content inside inline code (`...`)
- * - Lines that look like documentation (tables, ASCII art, quotes)
- * - @agent not at the start of a line
- */
-function extractAgentCommands(content: string): Array<{ fullMatch: string; instruction: string; lineNumber: number }> {
-  const results: Array<{ fullMatch: string; instruction: string; lineNumber: number }> = [];
+/** Count a task journal event. Runs are timed from their started event. */
+function updateTaskMetrics(event: JournalEvent): void {
+  const ts = Date.parse(event.ts);
+  const times = taskRunTimes.get(event.task) ?? {};
+  taskRunTimes.set(event.task, times);
+
+  if (event.event === "queued") {
+    times.queued_at ??= ts;
+    return;
+  }
+  if (event.event === "started") {
+    const wait = times.queued_at !== undefined ? Math.max(0, ts - times.queued_at) : undefined;
+    if (wait !== undefined) countMetric((counts) => addDuration(counts.queue_wait, wait));
+    taskRunTimes.set(event.task, { started_at: ts, wait_ms: wait });
+    return;
+  }
 
-  // Remove fenced code blocks first
-  const withoutCodeBlocks = content.replace(/```[\s\S]*?```/g, (match) => {
-    // Replace with same number of newlines to preserve line numbers
-    return match.split("\n").map(() => "").join("\n");
+  const outcome: TaskMetricOutcome = event.event === "completed"
+    ? event.outcome === "partial" ? "partial" : "completed"
+    : event.event === "retrying" ? "retried" : event.event;
+  const duration = times.started_at !== undefined ? ts - times.started_at : undefined;
+
+  countMetric((counts) => {
+    counts.tasks[outcome] = (counts.tasks[outcome] ?? 0) + 1;
+    if (event.kind === "timeout") counts.timeouts++;
+    if (duration !== undefined) addDuration(counts.task_runs, duration);
   });
 
-  // Process line by line
-  const lines = withoutCodeBlocks.split("\n");
+  // A retry's wait starts when its backoff ends
+  if (event.event === "retrying" && event.retry_at) {
+    taskRunTimes.set(event.task, { queued_at: Date.parse(event.retry_at) });
+  } else {
+    taskRunTimes.delete(event.task);
+  }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+  recordMetricRun({
+    kind: "task",
+    name: event.task,
+    outcome,
+    finished_at: event.ts,
+    duration_ms: duration,
+    wait_ms: times.wait_ms,
+    error: event.error?.split("\n")[0].slice(0, 200),
+  });
+}
 
-    // Skip lines that look like documentation/code
-    if (
-      line.includes("|") || // Table rows
-      line.includes("→") || // ASCII arrows (often in diagrams)
-      line.includes("```") || // Leftover code fence markers
-      line.trim().startsWith(">") || // Blockquotes
-      line.trim().startsWith("#") && line.includes("@agent") || // Headers mentioning @agent
-      /^\s{4,}/.test(line) || // Indented code blocks (4+ spaces)
-      line.includes("`@agent") || // Inline code containing @agent
-      line.includes("@agent`") // Inline code containing @agent
-    ) {
-      continue;
-    }
+function recordAgentMetric(
+  job: AgentJob,
+  outcome: AgentMetricOutcome,
+  run: { duration_ms: number; wait_ms: number; error?: string }
+): void {
+  countMetric((counts) => {
+    counts.agent[outcome] = (counts.agent[outcome] ?? 0) + 1;
+    addDuration(counts.agent_runs, run.duration_ms);
+  });
+  recordMetricRun({
+    kind: "agent",
+    name: job.relPath,
+    outcome,
+    finished_at: new Date().toISOString(),
+    ...run,
+    error: run.error?.split("\n")[0].slice(0, 200),
+  });
+}
 
-    // Match @agent at start of line (with optional whitespace)
-    const match = line.match(/^\s*@agent\s+(.+)$/);
-    if (match) {
-      results.push({
-        fullMatch: line,
-        instruction: match[1].trim(),
-        lineNumber: i + 1,
-      });
+/** The state file's daily counts, from today's metrics. */
+function dailyStateCounts(): Pick<DaemonState, "tasks_completed_today" | "agent_commands_today"> {
+  const today = todayMetrics();
+  return {
+    tasks_completed_today: (today.tasks.completed ?? 0) + (today.tasks.partial ?? 0),
+    agent_commands_today: today.agent.completed ?? 0,
+  };
+}
+
+function metricsChanged(): void {
+  // The CLI doesn't own the state file, and saves metrics itself when it records a run
+  if (cliMode) return;
+  updateState(dailyStateCounts());
+  if (!metricsSaveTimer) metricsSaveTimer = setTimeout(saveMetrics, 1000);
+}
+
+async function loadMetrics(): Promise<void> {
+  try {
+    if (existsSync(config.metrics.path)) {
+      const data = JSON.parse(await readFile(config.metrics.path, "utf-8")) as {
+        days?: DayMetrics[];
+        totals?: MetricCounts;
+        recent?: MetricRun[];
+      };
+      for (const day of data.days ?? []) metricDays.set(day.date, day);
+      metricTotals = { ...emptyMetricCounts(), ...data.totals };
+      recentRuns = data.recent ?? [];
     }
+  } catch (err) {
+    await log("WARN", `Failed to load metrics, starting fresh: ${err}`);
   }
-
-  return results;
 }
 
-async function processAgentTag(filePath: string, instruction: string, fullMatch: string, lineNumber: number): Promise<void> {
-  const fileName = basename(filePath);
-  await log("INFO", `Processing @agent in ${fileName}:${lineNumber}: "${instruction.slice(0, 50)}..."`);
+async function saveMetrics(): Promise<void> {
+  if (metricsSaveTimer) clearTimeout(metricsSaveTimer);
+  metricsSaveTimer = null;
 
   try {
-    const content = await readFile(filePath, "utf-8");
+    const tmpPath = `${config.metrics.path}.tmp`;
+    const days = [...metricDays.values()].sort((a, b) => a.date.localeCompare(b.date));
+    await writeFile(tmpPath, JSON.stringify({ version: 1, days, totals: metricTotals, recent: recentRuns }));
+    await rename(tmpPath, config.metrics.path);
+  } catch (err) {
+    await log("WARN", `Failed to save metrics: ${err}`);
+  }
 
-    const prompt = `You are processing an inline @agent command in an Obsidian note.
+  if (config.metrics.dashboard) await writeDashboard();
+}
 
-FILE: ${filePath}
-LINE: ${lineNumber}
-INSTRUCTION: ${instruction}
+/** Start a new day at local midnight, so the daily counts reset even when nothing runs. */
+function scheduleDayRollover(): void {
+  const next = new Date();
+  next.setHours(24, 0, 1, 0);
 
-CURRENT FILE CONTENT:
-${content}
+  dayRolloverTimer = setTimeout(() => {
+    metricsChanged();
+    scheduleDayRollover();
+  }, next.getTime() - Date.now());
+}
 
-INSTRUCTIONS:
-1. Execute the instruction in the context of this file
-2. Edit the file to fulfill the request
-3. REMOVE the @agent line after completing the task
-4. Keep your changes focused and minimal
-5. Preserve the rest of the file structure
+function isDashboardPath(filePath: string): boolean {
+  return filePath === config.metrics.dashboard_path;
+}
 
-Use the Edit tool to modify the file. The @agent line to remove is: "${fullMatch.trim()}"`;
+/** A markdown link to where a run's note is now, relative to the dashboard. */
+function dashboardRunLink(run: MetricRun, cell: (text: string) => string): string {
+  // Without the [scheduled] prefix, whose brackets would break the link
+  const label = cell(run.name.replace(/^\[scheduled\] /, "").replace(/\.md$/, ""));
+  const notePath = run.kind === "task" ? findTaskNote(run.name) : join(config.vault_path, run.name);
+  if (!notePath || !existsSync(notePath)) return label;
+  return `[${label}](<${relative(dirname(config.metrics.dashboard_path), notePath)}>)`;
+}
 
-    const proc = spawn({
-      cmd: [config.claude.command, ...config.claude.args, "-p", prompt],
-      cwd: config.vault_path,
-      stdout: "pipe",
-      stderr: "pipe",
-    });
+async function writeDashboard(): Promise<void> {
+  const notePath = config.metrics.dashboard_path;
+  const cell = (text: string) => text.replace(/\s+/g, " ").replace(/\|/g, "\\|").slice(0, 120);
+  const average = (stats: DurationStats) => stats.count > 0 ? formatRunDuration(stats.total_ms / stats.count) : "-";
+  const label = (outcome: MetricRun["outcome"]) => outcome === "retried" ? "🔁 retried" : RUN_OUTCOME_LABELS[outcome];
+  const sum = (counts: Partial<Record<string, number>>) => Object.values(counts).reduce((a: number, b) => a + (b ?? 0), 0);
+
+  const today = todayMetrics();
+  const todayRows = [
+    ...TASK_METRIC_OUTCOMES.filter((o) => today.tasks[o]).map((o) => `| Tasks ${label(o)} | ${today.tasks[o]} |`),
+    `| Timeouts | ${today.timeouts} |`,
+    `| Average run | ${average(today.task_runs)} |`,
+    `| Longest run | ${today.task_runs.count > 0 ? formatRunDuration(today.task_runs.max_ms) : "-"} |`,
+    `| Average queue wait | ${average(today.queue_wait)} |`,
+    ...AGENT_METRIC_OUTCOMES.filter((o) => today.agent[o]).map((o) => `| @agent ${label(o)} | ${today.agent[o]} |`),
+  ];
 
-    const exitCode = await proc.exited;
+  const days = [...metricDays.values()].sort((a, b) => b.date.localeCompare(a.date)).slice(0, DASHBOARD_DAYS);
+  const dayRows = days.map((day) => {
+    const t = day.tasks;
+    return `| ${day.date} | ${t.completed ?? 0} | ${t.partial ?? 0} | ${t.blocked ?? 0} | ${t.failed ?? 0} | ${t.retried ?? 0} | ${day.timeouts} | ${average(day.task_runs)} | ${average(day.queue_wait)} | ${sum(day.agent)} |`;
+  });
 
-    if (exitCode !== 0) {
-      const stderr = await new Response(proc.stderr).text();
-      throw new Error(`Claude exited with code ${exitCode}: ${stderr}`);
-    }
+  const runRows = recentRuns.slice(-config.metrics.recent_runs).reverse().map((run) => {
+    const finished = new Date(run.finished_at).toLocaleString("en-CA", { hour12: false }).replace(",", "");
+    const kind = run.kind === "task" ? "Task" : "@agent";
+    return `| ${finished} | ${kind} | ${dashboardRunLink(run, cell)} | ${label(run.outcome)} | ${formatRunDuration(run.duration_ms)} | ${formatRunDuration(run.wait_ms)} | ${cell(run.error ?? "")} |`;
+  });
 
-    await log("INFO", `Completed @agent in ${fileName}`);
-    updateState({
-      agent_commands_today: state.agent_commands_today + 1,
-    });
-  } catch (err) {
-    const errorMsg = err instanceof Error ? err.message : String(err);
-    await log("ERROR", `@agent failed in ${fileName}: ${errorMsg}`);
-  }
-}
+  const content = `---
+updated: ${new Date().toISOString()}
+---
 
-async function scanForAgentTags(): Promise<void> {
-  await log("DEBUG", "Scanning vault for @agent tags...");
-  updateState({ last_scan: new Date().toISOString() });
+# Vault Daemon Dashboard
 
-  const ignorePatterns = config.agent_tags.ignore_patterns;
+<!-- Maintained by the vault daemon; edits are overwritten -->
 
-  async function scanDirectory(dir: string): Promise<void> {
-    const entries = await readdir(dir, { withFileTypes: true });
+## Today
 
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-      const relativePath = relative(config.vault_path, fullPath);
+| | |
+|---|---|
+${todayRows.join("\n")}
 
-      // Check ignore patterns
-      const shouldIgnore = ignorePatterns.some((pattern) => {
-        const regex = new RegExp(
-          "^" + pattern.replace(/\*\*/g, ".*").replace(/\*/g, "[^/]*") + "$"
-        );
-        return regex.test(relativePath);
-      });
+## Last ${DASHBOARD_DAYS} Days
 
-      if (shouldIgnore) continue;
+| Day | Completed | Partial | Blocked | Failed | Retried | Timeouts | Avg run | Avg wait | @agent |
+|-----|-----------|---------|---------|--------|---------|----------|---------|----------|--------|
+${dayRows.join("\n")}
 
-      if (entry.isDirectory()) {
-        await scanDirectory(fullPath);
-      } else if (entry.name.endsWith(".md")) {
-        try {
-          const content = await readFile(fullPath, "utf-8");
-          const commands = extractAgentCommands(content);
+## Recent Runs
 
-          for (const cmd of commands) {
-            await processAgentTag(fullPath, cmd.instruction, cmd.fullMatch, cmd.lineNumber);
-          }
-        } catch (err) {
-          // File might have been deleted/moved
-        }
-      }
-    }
-  }
+| Finished | Kind | Run | Outcome | Duration | Waited | Error |
+|----------|------|-----|---------|----------|--------|-------|
+${runRows.join("\n")}
+`;
 
   try {
-    await scanDirectory(config.vault_path);
+    await mkdir(dirname(notePath), { recursive: true });
+    await writeFile(notePath, content);
   } catch (err) {
-    const errorMsg = err instanceof Error ? err.message : String(err);
-    await log("ERROR", `Scan failed: ${errorMsg}`);
+    await log("ERROR", `Failed to write dashboard: ${err}`);
   }
 }
 
-// =============================================================================
+/** All-time totals and the current queue in the Prometheus text format. */
+function renderPrometheusMetrics(): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: [string, number][]) => {
+    lines.push(`# HELP vault_daemon_${name} ${help}`, `# TYPE vault_daemon_${name} ${type}`);
+    for (const [suffix, value] of samples) lines.push(`vault_daemon_${name}${suffix} ${value}`);
+  };
+  const seconds = (stats: DurationStats): [string, number][] => [["_sum", stats.total_ms / 1000], ["_count", stats.count]];
+
+  metric("tasks_total", "counter", "Task runs that ended, by outcome.",
+    TASK_METRIC_OUTCOMES.map((o) => [`{outcome="${o}"}`, metricTotals.tasks[o] ?? 0]));
+  metric("task_timeouts_total", "counter", "Task runs that timed out.", [["", metricTotals.timeouts]]);
+  metric("task_run_seconds", "summary", "Executor run time of task attempts.", seconds(metricTotals.task_runs));
+  metric("task_queue_wait_seconds", "summary", "Time tasks waited in the queue before starting.", seconds(metricTotals.queue_wait));
+  metric("agent_commands_total", "counter", "@agent commands that ended, by outcome.",
+    AGENT_METRIC_OUTCOMES.map((o) => [`{outcome="${o}"}`, metricTotals.agent[o] ?? 0]));
+  metric("agent_run_seconds", "summary", "Run time of @agent commands.", seconds(metricTotals.agent_runs));
+  metric("queued_tasks", "gauge", "Tasks waiting in the queue.", [["", taskQueue.length]]);
+  metric("active_tasks", "gauge", "Tasks running now.", [["", state.active_tasks]]);
+  metric("queued_agent_commands", "gauge", "@agent commands waiting for a slot.", [["", agentQueue.length]]);
+  metric("active_agent_commands", "gauge", "@agent commands running now.", [["", runningAgentJobs.size]]);
+  metric("intake_paused", "gauge", "1 while intake is paused.", [["", intakePaused ? 1 : 0]]);
+
+  return lines.join("\n") + "\n";
+}
+
+/** Serve /metrics on loopback for Prometheus. Unauthenticated, so read-only counts only. */
+async function startMetricsServer(port: number): Promise<void> {
+  try {
+    metricsServer = Bun.serve({
+      hostname: "127.0.0.1",
+      port,
+      fetch: (req) => new URL(req.url).pathname === "/metrics"
+        ? new Response(renderPrometheusMetrics(), { headers: { "Content-Type": "text/plain; version=0.0.4" } })
+        : new Response("Not found", { status: 404 }),
+    });
+    await log("INFO", `Prometheus metrics on http://127.0.0.1:${metricsServer.port}/metrics`);
+  } catch (err) {
+    await log("ERROR", `Failed to start metrics endpoint: ${err}`);
+  }
+}
+
+// =============================================================================
+// Frontmatter
+// =============================================================================
+
+type FrontmatterValue = string | number | boolean | null | string[];
+
+interface Frontmatter {
+  data: Record<string, FrontmatterValue>;
+  body: string;
+}
+
+function parseScalar(raw: string): string | number | boolean | null {
+  const value = raw.trim();
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+  const quoted = value.match(/^(["'])(.*)\1$/);
+  if (!quoted) return value;
+  // Double quotes are how formatFrontmatterValue writes strings, escapes included
+  if (quoted[1] === '"') {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      // Not valid JSON escapes; take the text between the quotes as is
+    }
+  }
+  return quoted[2];
+}
+
+/** Split the inside of an inline list on commas that aren't within quotes. */
+function splitInlineList(inner: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      current += char;
+      if (char === "\\" && quote === '"' && i + 1 < inner.length) {
+        current += inner[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === ",") {
+      items.push(current);
+      current = "";
+    } else {
+      if ((char === '"' || char === "'") && current.trim() === "") quote = char;
+      current += char;
+    }
+  }
+  items.push(current);
+  return items;
+}
+
+/**
+ * Parse a leading YAML frontmatter block. Supports the subset Obsidian
+ * properties use: scalars, inline lists (`[a, b]`) and block lists (`- a`).
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: content };
+
+  const data: Record<string, FrontmatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && listKey) {
+      const list = Array.isArray(data[listKey]) ? (data[listKey] as string[]) : [];
+      list.push(String(parseScalar(listItem[1])));
+      data[listKey] = list;
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_.-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const key = pair[1];
+    const rawValue = pair[2].trim();
+
+    if (/^\[.*\]$/.test(rawValue)) {
+      data[key] = splitInlineList(rawValue.slice(1, -1))
+        .map((item) => parseScalar(item))
+        .filter((item) => item !== null)
+        .map(String);
+    } else {
+      data[key] = parseScalar(rawValue);
+    }
+
+    // An empty value may be followed by a block list
+    listKey = rawValue === "" ? key : null;
+  }
+
+  return { data, body: content.slice(match[0].length) };
+}
+
+function formatFrontmatterValue(value: FrontmatterValue): string {
+  if (value === null) return "";
+  if (Array.isArray(value)) return `[${value.map((item) => formatFrontmatterValue(item)).join(", ")}]`;
+  if (typeof value !== "string") return String(value);
+
+  // Quote anything YAML would otherwise read as another type or structure
+  return /^[\w./@()+-][\w ./@()+-]*$/.test(value) && !/^(true|false|null|~|-?\d+(\.\d+)?)$/.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+/**
+ * Set (or with `undefined`, remove) keys in the leading frontmatter block,
+ * creating one if needed. Untouched keys keep their original formatting.
+ */
+export function updateFrontmatter(content: string, updates: Record<string, FrontmatterValue | undefined>): string {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  const lines = match ? match[1].split(/\r?\n/) : [];
+  const body = match ? content.slice(match[0].length) : content;
+  const kept: string[] = [];
+  let skippingList = false;
+
+  for (const line of lines) {
+    if (skippingList && /^\s*-\s+/.test(line)) continue;
+    skippingList = false;
+
+    const key = line.match(/^([A-Za-z0-9_.-]+)\s*:/)?.[1];
+    if (key !== undefined && key in updates) {
+      // Drop the old value, including any block list under it
+      skippingList = true;
+      continue;
+    }
+    kept.push(line);
+  }
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined) kept.push(`${key}: ${formatFrontmatterValue(value)}`.trimEnd());
+  }
+
+  if (kept.length === 0) return body;
+  return `---\n${kept.join("\n")}\n---\n${body}`;
+}
+
+function toStringList(value: FrontmatterValue | undefined): string[] {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : String(value).split(",");
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a duration like `90s`, `10m`, `1h` or `500ms`. Bare numbers are seconds.
+ */
+function parseDuration(value: FrontmatterValue | undefined): number | null {
+  if (typeof value === "number") return value * 1000;
+  if (typeof value !== "string") return null;
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i);
+  if (!match) return null;
+
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  return Math.round(Number(match[1]) * units[(match[2] || "s").toLowerCase()]);
+}
+
+/**
+ * Parse a due date. Date-only values (`2026-01-15`) are due at the end of that
+ * day in local time.
+ */
+function parseDueDate(value: FrontmatterValue | undefined): Date | null {
+  if (typeof value !== "string") return null;
+
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const due = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), 23, 59, 59)
+    : new Date(value);
+
+  return isNaN(due.getTime()) ? null : due;
+}
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  urgent: "urgent",
+  critical: "urgent",
+  high: "high",
+  normal: "normal",
+  medium: "normal",
+  low: "low",
+};
+
+function parseTaskMeta(data: Record<string, FrontmatterValue>): TaskMeta {
+  const rawPriority = String(data.priority ?? "normal").toLowerCase();
+
+  return {
+    priority: PRIORITY_ALIASES[rawPriority] ?? "normal",
+    tags: toStringList(data.tags).map((tag) => tag.replace(/^#/, "")),
+    due: parseDueDate(data.due),
+    timeout_ms: parseDuration(data.timeout),
+    model: typeof data.model === "string" ? data.model : null,
+    allowed_tools: toStringList(data.allowed_tools),
+    args: Array.isArray(data.args) ? data.args : toStringList(data.args).flatMap((arg) => arg.split(/\s+/)),
+    cwd: typeof data.cwd === "string" ? data.cwd : null,
+    depends_on: toStringList(data.depends_on),
+    retry_attempt: typeof data.retry_attempt === "number" ? data.retry_attempt : 0,
+    retry_after: typeof data.retry_after === "string" ? parseDueDate(data.retry_after) : null,
+    follow_up_depth: typeof data.follow_up_depth === "number" ? data.follow_up_depth : 0,
+    status: typeof data.status === "string" ? data.status : null,
+    claude_session: typeof data.claude_session === "string" ? data.claude_session : null,
+    prompt_template: typeof data.prompt_template === "string" ? data.prompt_template : null,
+    context: typeof data.context === "boolean" ? data.context : null,
+  };
+}
+
+/**
+ * The stop command a user set in a task's `status`, if any. The daemon writes
+ * the past tense (`cancelled`, `paused`), so those aren't commands.
+ */
+function parseStatusCommand(content: string): "cancel" | "pause" | null {
+  const status = String(parseFrontmatter(content).data.status ?? "").trim().toLowerCase();
+  return status === "cancel" || status === "pause" ? status : null;
+}
+
+// =============================================================================
+// Prompt Templates
+// =============================================================================
+
+/**
+ * Built-in templates, used when the prompts folder has no file of the same
+ * name. `task` is for Inbox tasks and `agent` for @agent commands.
+ */
+const BUILTIN_PROMPTS: Record<string, string> = {
+  task: `You are executing a task from the user's Obsidian vault task queue.
+
+TASK FILE: {{task_name}}
+TASK CONTENT:
+{{content}}
+
+{{context}}
+
+INSTRUCTIONS:
+1. Read the task carefully and execute what is requested
+2. Work within the Obsidian vault at: {{vault_path}}
+3. If you have questions that BLOCK your progress, stop and ask them (see below)
+4. When complete, summarize what you did
+
+{{result_instructions}}`,
+
+  agent: `You are processing an inline @agent command in an Obsidian note.
+
+FILE: {{file}}
+WORKING COPY: {{working_copy}}
+LINES: {{lines}}
+INSTRUCTION: {{instruction}}
+
+CONTENT ({{scope}}):
+{{content}}
+
+{{context}}
+
+INSTRUCTIONS:
+1. Execute the instruction in the context of this {{scope}}
+2. Edit the WORKING COPY (not FILE) to fulfill the request; it is copied back to the note when you finish
+3. REMOVE the @agent command after completing the task
+4. Keep your changes focused and minimal; if the content above is a section or selection, only change that part
+5. Preserve the rest of the file structure
+
+Use the Edit tool to modify the working copy. The @agent command to remove is:
+{{command}}`,
+};
+
+/** Load every `<name>.md` in the prompts folder. Frontmatter is ignored. */
+async function loadPromptTemplates(): Promise<void> {
+  promptTemplates.clear();
+  if (!existsSync(config.prompts.dir)) return;
+
+  try {
+    for (const file of await readdir(config.prompts.dir)) {
+      if (!file.endsWith(".md")) continue;
+      const content = await readFile(join(config.prompts.dir, file), "utf-8");
+      promptTemplates.set(file.slice(0, -3), parseFrontmatter(content).body.trim());
+    }
+    if (promptTemplates.size > 0) {
+      await log("INFO", `Loaded ${promptTemplates.size} prompt templates: ${[...promptTemplates.keys()].join(", ")}`);
+    }
+  } catch (err) {
+    await log("ERROR", `Failed to load prompt templates: ${err}`);
+  }
+}
+
+function setupPromptTemplateWatcher(): void {
+  const watcher = watch(config.prompts.dir, {
+    ignoreInitial: true,
+    depth: 0,
+    awaitWriteFinish: {
+      stabilityThreshold: 500,
+      pollInterval: 100,
+    },
+  });
+
+  watcher.on("all", async (event, filePath) => {
+    if (!filePath.endsWith(".md")) return;
+    await log("INFO", `Prompt template ${event}: ${basename(filePath)}, reloading...`);
+    await loadPromptTemplates();
+  });
+}
+
+function isPromptTemplatePath(filePath: string): boolean {
+  return filePath === config.prompts.dir || filePath.startsWith(config.prompts.dir + "/");
+}
+
+/**
+ * Fill in a template's `{{variables}}`. Every template gets vault_path, date,
+ * time and `frontmatter.<key>`; callers add their own. Unknown variables
+ * render as empty strings.
+ */
+function renderPrompt(
+  name: string,
+  variables: Record<string, string>,
+  frontmatter: Record<string, FrontmatterValue> = {}
+): string {
+  const template = promptTemplates.get(name) ?? BUILTIN_PROMPTS[name];
+  if (template === undefined) {
+    throw new TaskFailure(`No prompt template "${name}" in ${config.prompts.dir}`, "config");
+  }
+
+  const now = new Date();
+  const values: Record<string, string> = {
+    vault_path: config.vault_path,
+    date: now.toLocaleDateString("en-CA"),
+    time: now.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" }),
+    ...variables,
+  };
+
+  const lookup = (key: string): string => {
+    if (key.startsWith("frontmatter.")) {
+      const value = frontmatter[key.slice("frontmatter.".length)];
+      return Array.isArray(value) ? value.join(", ") : value === undefined || value === null ? "" : String(value);
+    }
+    return values[key] ?? "";
+  };
+
+  return template
+    // A variable alone on its line that renders empty (e.g. no context) takes
+    // the line, and a blank line after it, with it
+    .replace(/^[ \t]*\{\{\s*([\w.-]+)\s*\}\}[ \t]*\n(?:[ \t]*\n)?/gm, (line, key: string) => lookup(key) === "" ? "" : line)
+    .replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, key: string) => lookup(key));
+}
+
+// =============================================================================
+// Vault Context
+// =============================================================================
+
+/** agent_tags.ignore_patterns as regexes over vault-relative paths. */
+function compileIgnorePatterns(): RegExp[] {
+  return config.agent_tags.ignore_patterns.map((pattern) => new RegExp(
+    "^" + pattern.replace(/\*\*/g, ".*").replace(/\*/g, "[^/]*") + "$"
+  ));
+}
+
+/**
+ * Pull wikilink targets, embed targets and tags out of a note. Links and tags
+ * inside code are ignored. Targets are the note part only: `[[Note#Heading|alias]]`
+ * gives `Note`.
+ */
+function extractNoteLinks(content: string): Omit<NoteLinks, "mtime_ms"> {
+  const { data, body } = parseFrontmatter(content);
+  const text = body.replace(/```[\s\S]*?```/g, "").replace(/`[^`\n]*`/g, "");
+  const links: string[] = [];
+  const embeds: string[] = [];
+
+  for (const match of text.matchAll(/(!?)\[\[([^\]|#^]*)[^\]]*\]\]/g)) {
+    const target = match[2].trim();
+    if (target) (match[1] ? embeds : links).push(target);
+  }
+
+  const tags = new Set(toStringList(data.tags).map((tag) => tag.replace(/^#/, "").toLowerCase()));
+  for (const match of text.matchAll(/(?:^|\s)#([\p{L}\p{N}_/-]+)/gu)) {
+    // Obsidian doesn't treat all-digit #123 as a tag
+    if (!/^\d+$/.test(match[1])) tags.add(match[1].toLowerCase());
+  }
+
+  return { links, embeds, tags: [...tags] };
+}
+
+/** Whether a vault path is left out of the link cache (and so of context). */
+function isLinkCacheExcluded(fullPath: string, ignorePatterns: RegExp[]): boolean {
+  const relPath = relative(config.vault_path, fullPath);
+  return relPath.split("/").some((part) => part.startsWith("."))
+    || ignorePatterns.some((regex) => regex.test(relPath))
+    || isPromptTemplatePath(fullPath) || isScheduleNotePath(fullPath) || isDashboardPath(fullPath);
+}
+
+/** Reparse a note into the link cache if its mtime changed; drop it if it's gone. */
+async function updateNoteLinks(fullPath: string): Promise<void> {
+  const relPath = relative(config.vault_path, fullPath);
+  try {
+    const stats = await stat(fullPath);
+    if (vaultLinkCache.get(relPath)?.mtime_ms === stats.mtimeMs) return;
+    const links = extractNoteLinks(await readFile(fullPath, "utf-8"));
+    vaultLinkCache.set(relPath, { mtime_ms: stats.mtimeMs, ...links });
+  } catch {
+    vaultLinkCache.delete(relPath);
+  }
+}
+
+/** Have the link cache reread a note before its next use. */
+function markNoteLinksStale(fullPath: string): void {
+  if (fullPath.endsWith(".md")) staleLinkPaths?.add(fullPath);
+}
+
+/**
+ * Bring the link cache up to date with the vault. The first call walks the
+ * whole vault; after that only notes the @agent watcher or scan saw change are
+ * reread. Without @agent tags there's no watcher, so every call walks the vault,
+ * still reparsing only notes whose mtime changed. Returns the vault-relative
+ * paths of all notes.
+ */
+async function refreshVaultLinkCache(): Promise<string[]> {
+  const ignorePatterns = compileIgnorePatterns();
+
+  if (staleLinkPaths && agentWatcher) {
+    for (const fullPath of staleLinkPaths) {
+      if (isLinkCacheExcluded(fullPath, ignorePatterns)) {
+        vaultLinkCache.delete(relative(config.vault_path, fullPath));
+      } else {
+        await updateNoteLinks(fullPath);
+      }
+    }
+    staleLinkPaths.clear();
+    return [...vaultLinkCache.keys()];
+  }
+
+  const present: Set<string> = new Set();
+  async function walk(dir: string): Promise<void> {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const fullPath = join(dir, entry.name);
+      if (isLinkCacheExcluded(fullPath, ignorePatterns)) continue;
+
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.name.endsWith(".md")) {
+        present.add(relative(config.vault_path, fullPath));
+        await updateNoteLinks(fullPath);
+      }
+    }
+  }
+
+  staleLinkPaths = new Set();
+  await walk(config.vault_path);
+  for (const path of vaultLinkCache.keys()) {
+    if (!present.has(path)) vaultLinkCache.delete(path);
+  }
+  return [...vaultLinkCache.keys()];
+}
+
+/**
+ * Resolve a wikilink target the way Obsidian does: an exact vault path, then a
+ * path relative to the linking note, then any note whose path ends with the
+ * target. Ties go to the note sharing the most folders with the source, then
+ * the shortest path. Returns null for non-note targets (images, PDFs) and
+ * unresolved links.
+ */
+function resolveWikilink(target: string, sourcePath: string | null, notes: string[]): string | null {
+  const withExt = /\.[a-z0-9]+$/i.test(target) ? target : `${target}.md`;
+  if (!withExt.endsWith(".md")) return null;
+
+  const normalized = withExt.replace(/^\/+/, "");
+  if (notes.includes(normalized)) return normalized;
+
+  if (sourcePath) {
+    const relativeToSource = join(dirname(sourcePath), normalized);
+    if (notes.includes(relativeToSource)) return relativeToSource;
+  }
+
+  const lower = normalized.toLowerCase();
+  const candidates = notes.filter((note) => {
+    const candidate = note.toLowerCase();
+    return candidate === lower || candidate.endsWith(`/${lower}`);
+  });
+  if (candidates.length <= 1) return candidates[0] ?? null;
+
+  const sourceDirs = sourcePath ? dirname(sourcePath).split("/") : [];
+  const shared = (note: string) => {
+    const dirs = dirname(note).split("/");
+    let n = 0;
+    while (n < dirs.length && n < sourceDirs.length && dirs[n] === sourceDirs[n]) n++;
+    return n;
+  };
+  return candidates.sort((a, b) => shared(b) - shared(a) || a.length - b.length)[0];
+}
+
+/**
+ * Build a "related notes" block for a prompt: embedded and linked notes, then
+ * backlinks to the source note, then notes sharing its tags, until
+ * context.max_tokens (estimated at 4 characters per token) is used up.
+ * sourcePath is the vault-relative path of the note or task, if it has one.
+ */
+async function buildVaultContext(content: string, sourcePath: string | null): Promise<string> {
+  const policy = config.context;
+  const notes = await refreshVaultLinkCache();
+  const own = extractNoteLinks(content);
+  const picked: Array<{ path: string; reason: string }> = [];
+  const add = (path: string | null, reason: string) => {
+    if (path && path !== sourcePath && !picked.some((p) => p.path === path)) picked.push({ path, reason });
+  };
+
+  for (const target of own.embeds) add(resolveWikilink(target, sourcePath, notes), "embedded");
+  if (policy.links) {
+    for (const target of own.links) add(resolveWikilink(target, sourcePath, notes), "linked");
+  }
+
+  if (policy.backlinks && sourcePath) {
+    const sourceName = basename(sourcePath, ".md").toLowerCase();
+    for (const [path, links] of vaultLinkCache) {
+      const targets = [...links.links, ...links.embeds];
+      // Cheap name check first; only resolve links that could point here
+      if (targets.some((t) => basename(t, ".md").toLowerCase() === sourceName && resolveWikilink(t, path, notes) === sourcePath)) {
+        add(path, "backlink");
+      }
+    }
+  }
+
+  if (policy.tags && own.tags.length > 0) {
+    const neighbours = [...vaultLinkCache]
+      .map(([path, links]) => ({ path, shared: links.tags.filter((tag) => own.tags.includes(tag)).length, mtime: links.mtime_ms }))
+      .filter((n) => n.shared > 0)
+      .sort((a, b) => b.shared - a.shared || b.mtime - a.mtime);
+    for (const neighbour of neighbours) add(neighbour.path, "shares tags");
+  }
+
+  let budget = policy.max_tokens * 4;
+  const sections: string[] = [];
+  for (const { path, reason } of picked) {
+    if (budget < 400) break;
+
+    let body: string;
+    try {
+      body = (await readFile(join(config.vault_path, path), "utf-8")).trim();
+    } catch {
+      continue;
+    }
+
+    const header = `### ${path} (${reason})\n`;
+    const room = budget - header.length;
+    const text = body.length > room ? `${body.slice(0, room)}\n[…truncated]` : body;
+    sections.push(header + text);
+    budget -= header.length + text.length;
+  }
+
+  if (sections.length === 0) return "";
+  await log("DEBUG", `Added ${sections.length} related notes to the prompt${sourcePath ? ` for ${sourcePath}` : ""}`);
+  return `RELATED NOTES FROM THE VAULT (for reference; edit them only if the instruction asks you to):
+
+${sections.join("\n\n")}`;
+}
+
+// =============================================================================
+// Output Streaming
+// =============================================================================
+
+interface StreamEvent {
+  kind: "text" | "tool" | "result" | "raw";
+  text: string;
+  data?: unknown;
+}
+
+interface StreamResult {
+  text: string;
+  sessionId: string | null;
+  isError: boolean;
+}
+
+interface TaskRunResult {
+  exitCode: number;
+  output: StreamResult;
+  stderr: string;
+  timedOut: boolean;
+  stopped: StopRequest | null;
+}
+
+function describeToolCall(name: string, input: Record<string, unknown>): string {
+  const target = input.file_path ?? input.path ?? input.command ?? input.pattern ?? input.url ?? input.query;
+  const detail = typeof target === "string" ? ` ${target.split("\n")[0].slice(0, 120)}` : "";
+  return `${name}${detail}`;
+}
+
+/**
+ * Read Claude's stdout line by line as it arrives. With `--output-format
+ * stream-json` each line is a JSON event; anything else is passed through as
+ * raw text so plain-text output still works.
+ */
+async function readClaudeStream(
+  stdout: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void,
+  onLine?: (line: string) => void
+): Promise<StreamResult> {
+  const decoder = new TextDecoder();
+  const rawLines: string[] = [];
+  let resultText: string | null = null;
+  let sessionId: string | null = null;
+  let isError = false;
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    onLine?.(line);
+    if (!line.trim()) {
+      rawLines.push(line);
+      return;
+    }
+
+    let event: unknown = null;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      // Not JSON - handled as raw below
+    }
+
+    // Plain JSON in text output (e.g. a result block) is raw text too
+    if (!isConfigObject(event) || typeof event.type !== "string") {
+      rawLines.push(line);
+      onEvent({ kind: "raw", text: line });
+      return;
+    }
+
+    if (typeof event.session_id === "string" && event.session_id) sessionId = event.session_id;
+
+    if (event.type === "assistant" && isConfigObject(event.message) && Array.isArray(event.message.content)) {
+      for (const block of event.message.content) {
+        if (!isConfigObject(block)) continue;
+        if (block.type === "text" && typeof block.text === "string" && block.text.trim()) {
+          onEvent({ kind: "text", text: block.text, data: block });
+        } else if (block.type === "tool_use") {
+          onEvent({ kind: "tool", text: describeToolCall(String(block.name ?? ""), isConfigObject(block.input) ? block.input : {}), data: block });
+        }
+      }
+    } else if (event.type === "result") {
+      const text = typeof event.result === "string" ? event.result : "";
+      resultText = text;
+      isError = Boolean(event.is_error);
+      onEvent({ kind: "result", text, data: event });
+    }
+  };
+
+  const reader = stdout.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+
+  return { text: resultText ?? rawLines.join("\n").trim(), sessionId, isError };
+}
+
+/**
+ * Keeps a live "Progress" section at the end of an In Progress note. Writes
+ * are throttled so sync clients aren't flooded. The note is re-read before
+ * each write so a note the user moved away isn't recreated, and a stop
+ * command they set in its frontmatter isn't overwritten.
+ */
+function createProgressWriter(
+  notePath: string,
+  baseContent: string,
+  onStatusCommand: (command: "cancel" | "pause") => void
+) {
+  const lines: string[] = [`- ${new Date().toLocaleTimeString()} Started`];
+  let timer: Timer | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  const flush = () => {
+    timer = null;
+    const content = `${baseContent}
+
+## Progress
+
+${lines.join("\n")}
+`;
+    writing = writing.then(async () => {
+      const current = await readFile(notePath, "utf-8");
+      const command = parseStatusCommand(current);
+      if (command) {
+        stopped = true;
+        onStatusCommand(command);
+        return;
+      }
+      await writeFile(notePath, content);
+    }).catch(() => {
+      // Note was moved or deleted - the In Progress watcher handles that
+    });
+  };
+
+  return {
+    add(line: string): void {
+      if (stopped) return;
+      lines.push(`- ${new Date().toLocaleTimeString()} ${line.replace(/\s+/g, " ").slice(0, 200)}`);
+      if (!timer) timer = setTimeout(flush, config.tasks.progress_interval_ms);
+    },
+    async stop(): Promise<void> {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await writing;
+    },
+  };
+}
+
+/** A task's transcript file in tasks.log_dir; every attempt is appended to it. */
+function taskTranscriptPath(taskName: string): string {
+  return join(config.tasks.log_dir, `${taskName.replace(/\.md$/, "")}.log`);
+}
+
+/**
+ * Append one run of a task to its transcript: the full prompt, stdout as it
+ * arrives and stderr once the run ends. Writes are batched so a chatty run
+ * doesn't queue an append per line.
+ */
+function createTranscriptWriter(taskName: string, attempt: number, prompt: string) {
+  const path = taskTranscriptPath(taskName);
+  const startedAt = Date.now();
+  let pending = "";
+  let writing: Promise<void> = mkdir(config.tasks.log_dir, { recursive: true }).then(() => {});
+
+  const write = (text: string) => {
+    pending += text;
+    writing = writing.then(async () => {
+      if (!pending) return;
+      const chunk = pending;
+      pending = "";
+      await appendFile(path, chunk);
+    }).catch((err) => console.error("Failed to write task transcript:", err));
+  };
+
+  write(`===== ${taskName} - attempt ${attempt} - ${executor.label} - ${new Date(startedAt).toISOString()} =====
+
+--- prompt ---
+${prompt.trimEnd()}
+
+--- stdout ---
+`);
+
+  return {
+    stdout(line: string): void {
+      write(`${line}\n`);
+    },
+    async finish(exitCode: number, stderr: string, timedOut: boolean): Promise<void> {
+      const ending = timedOut ? "timed out" : `exit ${exitCode}`;
+      write(`
+--- stderr ---
+${stderr.trimEnd()}
+
+--- ${ending} after ${formatRunDuration(Date.now() - startedAt)} ---
+
+`);
+      await writing;
+    },
+  };
+}
+
+// =============================================================================
+// Executors
+// =============================================================================
+
+interface ExecutorRequest {
+  /** Task name or @agent job id */
+  id: string;
+  prompt: string;
+  run: RunOptions;
+  /** Claude session to continue, if the executor can resume */
+  resumeSession?: string | null;
+  /** The copy of the note an @agent run edits */
+  workingCopy?: string;
+  /** Receives stdout line by line, for the task transcript */
+  onOutput?: (line: string) => void;
+}
+
+interface ExecutorOutcome {
+  exitCode: number;
+  output: StreamResult;
+  stderr: string;
+}
+
+/** A started run. `done` resolves however the run ends, including kill(). */
+interface ExecutorRun {
+  pid: number | null;
+  done: Promise<ExecutorOutcome>;
+  kill(): void;
+}
+
+interface Executor {
+  type: ExecutorType;
+  /** Name for log and error messages */
+  label: string;
+  /** Program it spawns, so recovery can recognise leftover processes */
+  command: string | null;
+  /** Can continue a blocked task's Claude session with just the answers */
+  canResume: boolean;
+  /** Can edit files itself, which @agent commands need */
+  canEditFiles: boolean;
+  /** Throws TaskFailure if the run can't start */
+  start(request: ExecutorRequest, onEvent: (event: StreamEvent) => void): ExecutorRun;
+}
+
+/** Options a fake executor fixture sets in its frontmatter. */
+interface ExecutorFixture {
+  name: string;
+  /** Regex tested against the prompt; a fixture without one matches anything */
+  match: RegExp | null;
+  exit_code: number;
+  stderr: string;
+  delay_ms: number;
+  /** Regex; matching lines are removed from an @agent working copy */
+  remove_lines: RegExp | null;
+  /** Printed as the executor's stdout: plain text or Claude stream-json lines */
+  output: string;
+}
+
+/** How long to wait for output after the process exits; children of a killed process can hold its pipes open. */
+const PIPE_DRAIN_MS = 5000;
+const EMPTY_OUTPUT: StreamResult = { text: "", sessionId: null, isError: false };
+
+function createExecutor(): Executor {
+  switch (config.executor.type) {
+    case "command":
+      return createCommandExecutor();
+    case "http":
+      return createHttpExecutor();
+    case "fake":
+      return createFakeExecutor();
+    default:
+      return createClaudeExecutor();
+  }
+}
+
+/** Spawn a CLI executor and parse its stdout like Claude's. */
+function spawnExecutor(
+  label: string,
+  cmd: string[],
+  request: ExecutorRequest,
+  onEvent: (event: StreamEvent) => void,
+  stdin?: string,
+  env?: Record<string, string>
+): ExecutorRun {
+  let proc;
+  try {
+    proc = spawn({
+      cmd,
+      cwd: request.run.cwd,
+      stdin: stdin === undefined ? "ignore" : new Blob([stdin]),
+      stdout: "pipe",
+      stderr: "pipe",
+      env: env ? { ...process.env, ...env } : undefined,
+    });
+  } catch (err) {
+    throw new TaskFailure(`Failed to start ${label}: ${err}`, "spawn");
+  }
+
+  const output = readClaudeStream(proc.stdout, onEvent, request.onOutput);
+  const stderr = new Response(proc.stderr).text();
+  const drained = <T>(promise: Promise<T>, fallback: T) =>
+    Promise.race([promise, Bun.sleep(PIPE_DRAIN_MS).then(() => fallback)]);
+
+  return {
+    pid: proc.pid,
+    kill: () => proc.kill(),
+    done: proc.exited.then(async (exitCode) => ({
+      exitCode,
+      output: await drained(output, EMPTY_OUTPUT),
+      stderr: await drained(stderr, ""),
+    })),
+  };
+}
+
+function createClaudeExecutor(): Executor {
+  return {
+    type: "claude",
+    label: "Claude",
+    command: config.claude.command,
+    canResume: true,
+    canEditFiles: true,
+    start(request, onEvent) {
+      const { run } = request;
+      const args = [...config.claude.args];
+      if (run.model) args.push("--model", run.model);
+      if (run.allowed_tools.length > 0) args.push("--allowedTools", run.allowed_tools.join(","));
+      args.push(...run.args);
+      if (config.claude.output_format === "stream-json") args.push("--output-format", "stream-json", "--verbose");
+      if (request.resumeSession) args.push("--resume", request.resumeSession);
+
+      return spawnExecutor(this.label, [config.claude.command, ...args, "-p", request.prompt], request, onEvent);
+    },
+  };
+}
+
+/**
+ * Any program that reads the prompt on stdin. Overrides arrive as extra
+ * arguments (args) and environment variables (model, allowed tools), along
+ * with the task or job id and the @agent working copy.
+ */
+function createCommandExecutor(): Executor {
+  const command = config.executor.command!;
+
+  return {
+    type: "command",
+    label: basename(command),
+    command,
+    canResume: false,
+    canEditFiles: true,
+    start(request, onEvent) {
+      const { run } = request;
+      const env: Record<string, string> = { VAULT_DAEMON_ID: request.id };
+      if (run.model) env.VAULT_DAEMON_MODEL = run.model;
+      if (run.allowed_tools.length > 0) env.VAULT_DAEMON_ALLOWED_TOOLS = run.allowed_tools.join(",");
+      if (request.workingCopy) env.VAULT_DAEMON_WORKING_COPY = request.workingCopy;
+
+      const cmd = [command, ...(config.executor.args ?? []), ...run.args];
+      return spawnExecutor(this.label, cmd, request, onEvent, request.prompt, env);
+    },
+  };
+}
+
+/**
+ * An OpenAI-compatible chat completions endpoint, e.g. a local model server.
+ * It only answers in text, so it can't run tools or edit notes.
+ */
+function createHttpExecutor(): Executor {
+  const endpoint = `${config.executor.url!.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    type: "http",
+    label: "HTTP executor",
+    command: null,
+    canResume: false,
+    canEditFiles: false,
+    start(request, onEvent) {
+      const { run } = request;
+      if (run.allowed_tools.length > 0 || run.args.length > 0) {
+        throw new TaskFailure("The http executor can't use allowed_tools or args", "config");
+      }
+
+      const apiKey = config.executor.api_key_env ? process.env[config.executor.api_key_env] : undefined;
+      const controller = new AbortController();
+      const failed = (stderr: string): ExecutorOutcome => ({ exitCode: 1, output: EMPTY_OUTPUT, stderr });
+
+      const done = (async (): Promise<ExecutorOutcome> => {
+        try {
+          const response = await fetch(endpoint, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+              model: run.model ?? config.executor.model,
+              messages: [{ role: "user", content: request.prompt }],
+            }),
+            signal: controller.signal,
+          });
+
+          const body = await response.text();
+          request.onOutput?.(body);
+          if (!response.ok) return failed(`HTTP ${response.status}: ${body.slice(0, 500)}`);
+
+          const data: unknown = JSON.parse(body);
+          const choice: unknown = isConfigObject(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+          const message = isConfigObject(choice) ? choice.message : undefined;
+          const text = isConfigObject(message) && typeof message.content === "string" ? message.content : "";
+          onEvent({ kind: "text", text, data });
+          onEvent({ kind: "result", text, data });
+          return { exitCode: 0, output: { text, sessionId: null, isError: false }, stderr: "" };
+        } catch (err) {
+          return failed(controller.signal.aborted ? "Request aborted" : String(err));
+        }
+      })();
+
+      return { pid: null, kill: () => controller.abort(), done };
+    },
+  };
+}
+
+/**
+ * Load the fake executor's fixtures: `*.md` notes in the fixtures folder, in
+ * file name order. The frontmatter holds the options, the body the output.
+ */
+async function loadExecutorFixtures(): Promise<ExecutorFixture[]> {
+  const dir = config.executor.fixtures!;
+  const files = (await readdir(dir)).filter((file) => file.endsWith(".md")).sort();
+
+  return Promise.all(files.map(async (file) => {
+    const { data, body } = parseFrontmatter(await readFile(join(dir, file), "utf-8"));
+    return {
+      name: file,
+      match: typeof data.match === "string" ? new RegExp(data.match, "i") : null,
+      exit_code: typeof data.exit_code === "number" ? data.exit_code : 0,
+      stderr: typeof data.stderr === "string" ? data.stderr : "",
+      delay_ms: typeof data.delay_ms === "number" ? data.delay_ms : 0,
+      remove_lines: typeof data.remove_lines === "string" ? new RegExp(data.remove_lines) : null,
+      output: body.replace(/^\n/, ""),
+    };
+  }));
+}
+
+/**
+ * Deterministic executor for exercising the daemon offline: the first fixture
+ * whose `match` fits the prompt decides the output, exit code and delay.
+ * Fixtures are re-read for every run, so they can be swapped mid-test.
+ */
+function createFakeExecutor(): Executor {
+  return {
+    type: "fake",
+    label: "Fake executor",
+    command: null,
+    canResume: true,
+    canEditFiles: true,
+    start(request, onEvent) {
+      let kill = () => {};
+      const killed = new Promise<boolean>((resolve) => {
+        kill = () => resolve(true);
+      });
+
+      const done = (async (): Promise<ExecutorOutcome> => {
+        try {
+          const fixtures = await loadExecutorFixtures();
+          const fixture = fixtures.find((f) => !f.match || f.match.test(request.prompt));
+          if (!fixture) {
+            return { exitCode: 1, output: EMPTY_OUTPUT, stderr: `No fixture in ${config.executor.fixtures} matches the prompt` };
+          }
+
+          if (await Promise.race([killed, Bun.sleep(fixture.delay_ms).then(() => false)])) {
+            return { exitCode: 143, output: EMPTY_OUTPUT, stderr: "" };
+          }
+
+          if (request.workingCopy && fixture.remove_lines) {
+            const content = await readFile(request.workingCopy, "utf-8");
+            const kept = content.split("\n").filter((line) => !fixture.remove_lines!.test(line));
+            await writeFile(request.workingCopy, kept.join("\n"));
+          }
+
+          const output = await readClaudeStream(new Response(fixture.output).body!, onEvent, request.onOutput);
+          return { exitCode: fixture.exit_code, output, stderr: fixture.stderr };
+        } catch (err) {
+          // A bad fixture (invalid regex, file removed mid-run) fails the run instead of hanging it
+          return { exitCode: 1, output: EMPTY_OUTPUT, stderr: err instanceof Error ? err.message : String(err) };
+        }
+      })();
+
+      return { pid: null, kill: () => kill(), done };
+    },
+  };
+}
+
+// =============================================================================
+// Task Results
+// =============================================================================
+
+const RESULT_FENCE = "task-result";
+
+/** How Claude should report back; the built-in task template includes it. */
+const RESULT_INSTRUCTIONS = `End your response with a result block in exactly this format:
+\`\`\`${RESULT_FENCE}
+{
+  "status": "completed",
+  "summary": "What you did, in markdown",
+  "questions": [],
+  "files_changed": ["Vault-relative paths of notes you created or edited"],
+  "follow_up_tasks": [{ "title": "Short title", "prompt": "Instructions for a follow-up task" }]
+}
+\`\`\`
+
+status is one of:
+- "completed": the task is done
+- "partial": you did some of the task but not all of it; say what's left in the summary
+- "blocked": you cannot continue without answers; put them in "questions"
+- "failed": the task cannot be done; explain why in the summary
+
+Leave follow_up_tasks empty unless the task asks for follow-up work.`;
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v) => typeof v === "string" && v.trim()).map((v) => v.trim()) : [];
+}
+
+/**
+ * Pull the numbered/bulleted questions out of a "## Questions from Claude"
+ * block in free-form output.
+ */
+const QUESTIONS_BLOCK = /^## Questions from Claude[ \t]*\n([\s\S]*?)(?=\n#{1,2} |(?![\s\S]))/m;
+
+function extractQuestions(text: string): string[] {
+  const block = text.match(QUESTIONS_BLOCK);
+  if (!block) return [];
+
+  return block[1]
+    .split("\n")
+    .map((line) => line.match(/^\s*(?:\d+[.)]|[-*])\s+(.+)$/)?.[1]?.trim())
+    .filter((q): q is string => Boolean(q));
+}
+
+/**
+ * Parse Claude's output into a TaskResult. Prefers the last ```task-result
+ * JSON block; falls back to the old heading heuristic when there isn't a
+ * valid one.
+ */
+export function parseTaskResult(output: string): TaskResult {
+  const blocks = [...output.matchAll(new RegExp("```" + RESULT_FENCE + "[ \\t]*\\n([\\s\\S]*?)\\n```", "g"))];
+  const last = blocks[blocks.length - 1];
+  const prose = output.replace(new RegExp("```" + RESULT_FENCE + "[\\s\\S]*?```", "g"), "").trim();
+
+  if (last) {
+    try {
+      const raw: unknown = JSON.parse(last[1]);
+      // Anything but an object is as good as no block
+      if (isConfigObject(raw)) {
+        const status: TaskOutcome = TASK_OUTCOMES.find((outcome) => outcome === raw.status) ?? "completed";
+
+        return {
+          status,
+          summary: typeof raw.summary === "string" && raw.summary.trim() ? raw.summary.trim() : prose,
+          questions: toStringArray(raw.questions),
+          files_changed: toStringArray(raw.files_changed),
+          follow_up_tasks: (Array.isArray(raw.follow_up_tasks) ? raw.follow_up_tasks : [])
+            .map((t: unknown) =>
+              typeof t === "string"
+                ? { title: t.slice(0, 60), prompt: t }
+                : isConfigObject(t)
+                  ? {
+                      title: String(t.title ?? ""),
+                      prompt: String(t.prompt ?? ""),
+                      depends_on: toStringArray(t.depends_on),
+                    }
+                  : { title: "", prompt: "" }
+            )
+            .filter((t: FollowUpTask) => t.prompt.trim()),
+          structured: true,
+        };
+      }
+    } catch {
+      // Malformed JSON - use the heuristics below
+    }
+  }
+
+  // Only a heading on its own line counts, not a mention in passing
+  const questions = extractQuestions(prose);
+
+  return {
+    status: questions.length > 0 ? "blocked" : "completed",
+    summary: questions.length > 0 ? prose.replace(QUESTIONS_BLOCK, "").replace(/\n---\s*$/, "").trim() : prose,
+    questions,
+    files_changed: [],
+    follow_up_tasks: [],
+    structured: false,
+  };
+}
+
+/**
+ * Parse the user's answers to the last "## Questions from Claude" block in a
+ * note. Answers can go on the lines under each question, or below the
+ * `<!-- Answer below -->` comment, numbered to match the questions; anything
+ * else below the comment becomes free-form notes. Returns null if the user
+ * hasn't answered anything.
+ */
+export function parseAnswers(content: string): QuestionAnswers | null {
+  const headings = [...content.matchAll(/^## Questions from Claude[ \t]*$/gm)];
+  const last = headings[headings.length - 1];
+  if (!last || last.index === undefined) return null;
+
+  const afterHeading = content.slice(last.index + last[0].length);
+  const nextHeading = afterHeading.search(/\n## /);
+  const section = nextHeading === -1 ? afterHeading : afterHeading.slice(0, nextHeading);
+  const [listPart, ...belowParts] = section.split(/<!--[\s\S]*?-->/);
+
+  const pairs: QuestionAnswers["pairs"] = [];
+  const inline: string[][] = [];
+
+  for (const line of listPart.split("\n")) {
+    const question = line.match(/^\s*(\d+)[.)]\s+(.+)$/);
+    if (question) {
+      pairs.push({ question: question[2].trim(), answer: null });
+      inline.push([]);
+    } else if (pairs.length > 0 && line.trim()) {
+      inline[inline.length - 1].push(line.trim().replace(/^(?:[-*>]\s*)?(?:(?:A|Answer)\s*[:：]\s*)?/i, ""));
+    }
+  }
+
+  inline.forEach((lines, i) => {
+    if (lines.length > 0) pairs[i].answer = lines.join("\n");
+  });
+
+  const notes: string[] = [];
+  for (const line of belowParts.join("\n").split("\n")) {
+    const numbered = line.match(/^\s*(\d+)[.)]\s+(.+)$/);
+    const index = numbered ? Number(numbered[1]) - 1 : -1;
+    if (numbered && pairs[index]) {
+      pairs[index].answer = [pairs[index].answer, numbered[2].trim()].filter(Boolean).join("\n");
+    } else {
+      notes.push(line);
+    }
+  }
+
+  let freeform = notes.join("\n").trim();
+
+  // A single question answered in prose
+  if (pairs.length === 1 && !pairs[0].answer && freeform) {
+    pairs[0].answer = freeform;
+    freeform = "";
+  }
+
+  if (!freeform && pairs.every((p) => !p.answer)) return null;
+  return { pairs, notes: freeform };
+}
+
+function buildResumePrompt(taskName: string, answers: QuestionAnswers): string {
+  const qa = answers.pairs
+    .map((p, i) => `${i + 1}. Q: ${p.question}\n   A: ${p.answer ?? "(no answer)"}`)
+    .join("\n");
+
+  return `The user has replied to your questions about the task in ${taskName}.
+
+${qa}
+${answers.notes ? `\nAdditional notes from the user:\n${answers.notes}\n` : ""}
+Continue the task from where you left off. End your response with the \`\`\`${RESULT_FENCE} block as before.`;
+}
+
+/**
+ * Retitle the answered questions block so only new questions sit under
+ * "Questions from Claude".
+ */
+function markQuestionsAnswered(content: string): string {
+  const headings = [...content.matchAll(/^## Questions from Claude[ \t]*$/gm)];
+  const last = headings[headings.length - 1];
+  if (!last || last.index === undefined) return content;
+
+  return content.slice(0, last.index) + "## Answered Questions" + content.slice(last.index + last[0].length);
+}
+
+/**
+ * Write a result into the task note: outcome fields go in frontmatter, the
+ * rest into sections appended after the original task.
+ */
+function renderTaskResult(content: string, result: TaskResult, followUpFiles: string[] = []): string {
+  const now = new Date().toISOString();
+  const withFrontmatter = updateFrontmatter(content, {
+    status: result.status,
+    [result.status === "blocked" ? "blocked_at" : "completed_at"]: now,
+    files_changed: result.files_changed.length > 0 ? result.files_changed : undefined,
+  });
+
+  const sections: string[] = [];
+
+  if (result.summary) {
+    sections.push(`## ${result.status === "blocked" ? "Progress So Far" : "Completion Summary"}\n\n${result.summary}`);
+  }
+
+  if (result.files_changed.length > 0) {
+    sections.push(`## Files Changed\n\n${result.files_changed.map((f) => `- [[${f}]]`).join("\n")}`);
+  }
+
+  if (result.follow_up_tasks.length > 0) {
+    const items = result.follow_up_tasks.map((t, i) =>
+      followUpFiles[i] ? `- [[${followUpFiles[i].replace(/\.md$/, "")}]]: ${t.prompt}` : `- **${t.title}**: ${t.prompt}`
+    );
+    sections.push(`## Follow-up Tasks\n\n${items.join("\n")}`);
+  }
+
+  if (result.questions.length > 0) {
+    sections.push(`## Questions from Claude\n\n${result.questions.map((q, i) => `${i + 1}. ${q}`).join("\n")}\n\n<!-- Answer below or edit the task description above, then save -->`);
+  }
+
+  return `${withFrontmatter.trimEnd()}\n\n---\n\n${sections.join("\n\n")}\n`;
+}
+
+// =============================================================================
+// Task Dependencies & Follow-ups
+// =============================================================================
+
+/**
+ * Normalize a task reference (`Draft`, `Draft.md`, `[[Draft|alias]]`) to the
+ * task's file name.
+ */
+function normalizeTaskRef(ref: string): string {
+  const name = basename(ref.replace(/^\[\[|\]\]$/g, "").split(/[|#]/)[0].trim());
+  return name.endsWith(".md") ? name : `${name}.md`;
+}
+
+/**
+ * Where a task's prerequisites stand. A prerequisite that failed, was
+ * cancelled or can't be found anywhere under Tasks/ fails the dependent; one
+ * waiting on answers in Blocked/ or parked in Paused/ just keeps it waiting.
+ */
+function checkDependencies(task: TaskInfo): DependencyStatus {
+  const tasksDir = join(config.vault_path, "Tasks");
+  const waiting: string[] = [];
+
+  for (const ref of task.meta.depends_on) {
+    const dep = normalizeTaskRef(ref);
+    if (dep === task.name) return { state: "failed", reason: "Task depends on itself" };
+
+    if (existsSync(join(tasksDir, "Completed", dep))) continue;
+
+    if (existsSync(join(tasksDir, "Cancelled", dep)) && !isTaskTracked(dep)) {
+      return { state: "failed", reason: `Prerequisite ${dep} was cancelled` };
+    }
+
+    if (existsSync(join(tasksDir, "Blocked", dep))) {
+      const last = taskJournal.get(dep)?.last.event;
+      if (last === "failed" || last === "interrupted") {
+        return { state: "failed", reason: `Prerequisite ${dep} failed` };
+      }
+      waiting.push(dep);
+      continue;
+    }
+
+    const pending = isTaskTracked(dep)
+      || existsSync(join(tasksDir, "Inbox", dep))
+      || existsSync(join(tasksDir, "In Progress", dep))
+      || existsSync(join(tasksDir, "Paused", dep));
+    if (!pending) {
+      return { state: "failed", reason: `Prerequisite ${dep} not found in Tasks/` };
+    }
+    waiting.push(dep);
+  }
+
+  return waiting.length > 0 ? { state: "waiting", on: waiting } : { state: "ready" };
+}
+
+/**
+ * Fail a task that never started (e.g. its prerequisite failed): record the
+ * reason in the note and move it from Inbox to Blocked.
+ */
+async function failQueuedTask(task: TaskInfo, reason: string): Promise<void> {
+  await log("WARN", `Task failed before starting: ${task.name} - ${reason}`);
+
+  const content = updateFrontmatter(task.content, {
+    status: "error",
+    error_kind: "dependency",
+    error_at: new Date().toISOString(),
+  });
+
+  try {
+    await writeFile(task.path, `${content.trimEnd()}
+
+---
+
+## Error
+
+${reason}
+
+<!-- Fix the issue and move back to Inbox to retry -->`);
+    await moveTask(task.path, "Blocked");
+  } catch (err) {
+    await log("ERROR", `Failed to block task ${task.name}: ${err}`);
+  }
+
+  await recordTaskEvent(task.name, "failed", { error: reason, kind: "dependency" });
+}
+
+/**
+ * Create Inbox tasks for the follow-ups a completed task asked for. Returns
+ * the created file names, in the same order as result.follow_up_tasks.
+ */
+async function spawnFollowUps(parent: TaskInfo, followUps: FollowUpTask[]): Promise<string[]> {
+  if (!config.tasks.follow_ups.enabled || followUps.length === 0) return [];
+
+  const depth = parent.meta.follow_up_depth + 1;
+  if (depth > config.tasks.follow_ups.max_depth) {
+    await log("WARN", `Not spawning follow-ups from ${parent.name}: chain is ${depth - 1} deep`);
+    return [];
+  }
+
+  const limited = followUps.slice(0, config.tasks.follow_ups.max_per_task);
+  const inbox = join(config.vault_path, "Tasks", "Inbox");
+
+  // Pick unique names up front so follow-ups can depend on each other by title
+  const fileNames: string[] = [];
+  for (const followUp of limited) {
+    const base = (followUp.title || "Follow-up").replace(/[\\/:*?"<>|#^[\]]/g, "").trim().slice(0, 60) || "Follow-up";
+    let fileName = `${base}.md`;
+    for (let n = 2; existsSync(join(inbox, fileName)) || existsSync(join(config.vault_path, "Tasks", "Completed", fileName)) || fileNames.includes(fileName); n++) {
+      fileName = `${base} ${n}.md`;
+    }
+    fileNames.push(fileName);
+  }
+  const byTitle = new Map(limited.map((f, i) => [f.title, fileNames[i]]));
+
+  const created: string[] = [];
+  for (const [i, followUp] of limited.entries()) {
+    const dependsOn = (followUp.depends_on ?? []).map((ref) => byTitle.get(ref) ?? normalizeTaskRef(ref));
+    const content = updateFrontmatter(`${followUp.prompt.trim()}\n`, {
+      follow_up_of: `[[${parent.name.replace(/\.md$/, "")}]]`,
+      follow_up_depth: depth,
+      depends_on: dependsOn.length > 0 ? dependsOn : undefined,
+    });
+
+    try {
+      await writeFile(join(inbox, fileNames[i]), content);
+      created.push(fileNames[i]);
+    } catch (err) {
+      await log("ERROR", `Failed to create follow-up task ${fileNames[i]}: ${err}`);
+    }
+  }
+
+  if (created.length > 0) {
+    await log("INFO", `Spawned ${created.length} follow-up tasks from ${parent.name}`);
+  }
+  return created;
+}
+
+// =============================================================================
+// Task Execution
+// =============================================================================
+
+const TASK_FOLDERS = ["Inbox", "In Progress", "Blocked", "Paused", "Cancelled", "Completed"];
+
+async function moveTask(taskPath: string, toFolder: string): Promise<string> {
+  const fileName = basename(taskPath);
+  const newPath = join(config.vault_path, "Tasks", toFolder, fileName);
+  await rename(taskPath, newPath);
+  await log("INFO", `Moved task to ${toFolder}: ${fileName}`, { task: fileName });
+  return newPath;
+}
+
+/**
+ * A task failure tagged with its kind, so the retry policy can tell transient
+ * problems from ones that need a human.
+ */
+class TaskFailure extends Error {
+  constructor(message: string, readonly kind: FailureKind) {
+    super(message);
+  }
+}
+
+/**
+ * Ask a running task to stop. Returns false if it isn't running. The kill
+ * makes runTaskExecutor return, and executeTask files the task according to
+ * the request.
+ */
+function requestTaskStop(taskName: string, action: StopRequest["action"], reason: string): boolean {
+  const proc = activeProcesses.get(taskName);
+  if (!proc) return false;
+
+  // The first request wins, e.g. a moved note also stops its progress writes
+  if (stopRequests.has(taskName)) return true;
+  stopRequests.set(taskName, { action, reason });
+  proc.kill();
+  log("INFO", `Stopping task (${action}): ${taskName} - ${reason}`);
+  return true;
+}
+
+function takeStopRequest(taskName: string): StopRequest | null {
+  const request = stopRequests.get(taskName) ?? null;
+  stopRequests.delete(taskName);
+  return request;
+}
+
+/**
+ * File a task that was stopped on request. task.path is wherever the note is
+ * now (In Progress or Inbox); the copy there is removed.
+ * - cancel: Cancelled/ with a note saying why
+ * - pause: Paused/, which the daemon never picks up from; moving the note back
+ *   to Inbox runs it again from the start
+ * - requeue: the note is already back in Inbox, so just queue it again
+ */
+async function settleStoppedTask(task: TaskInfo, stop: StopRequest): Promise<void> {
+  const tasksDir = join(config.vault_path, "Tasks");
+
+  if (stop.action === "requeue") {
+    const inboxPath = join(tasksDir, "Inbox", task.name);
+    try {
+      enqueueTask(inboxPath, await readFile(inboxPath, "utf-8"));
+      await log("INFO", `Re-queued task moved back to Inbox: ${task.name}`);
+    } catch {
+      await log("WARN", `Task moved back to Inbox is gone, not re-queuing: ${task.name}`);
+    }
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const folder = stop.action === "cancel" ? "Cancelled" : "Paused";
+  const content = stop.action === "cancel"
+    ? `${updateFrontmatter(task.content, { status: "cancelled", retry_after: undefined, cancelled_at: now }).trimEnd()}
+
+---
+
+## Cancelled
+
+${stop.reason}
+
+<!-- Move back to Inbox to run it again -->`
+    : updateFrontmatter(task.content, { status: "paused", retry_after: undefined, paused_at: now });
+
+  try {
+    const targetPath = join(tasksDir, folder, task.name);
+    await mkdir(dirname(targetPath), { recursive: true });
+    await writeFile(targetPath, content);
+    if (task.path !== targetPath && existsSync(task.path)) await unlink(task.path);
+    await log("INFO", `Moved task to ${folder}: ${task.name}`);
+  } catch (err) {
+    await log("ERROR", `Failed to move stopped task ${task.name} to ${folder}: ${err}`);
+  }
+
+  await recordTaskEvent(task.name, stop.action === "cancel" ? "cancelled" : "paused", { error: stop.reason });
+}
+
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|\b429\b|overloaded|\b529\b/i;
+
+function retryDelay(attempt: number): number {
+  const { backoff_ms, max_backoff_ms } = config.tasks.retry;
+  return Math.min(backoff_ms * 2 ** (attempt - 1), max_backoff_ms);
+}
+
+/**
+ * Check per-run overrides against claude.overrides, rejecting anything not
+ * allowed. The executor turns what's left into flags or request fields.
+ */
+export function resolveRunOptions(
+  overrides: RunOverrides,
+  claude: Pick<ResolvedConfig["claude"], "overrides" | "timeout_ms"> = config.claude,
+  vaultPath = config.vault_path
+): RunOptions {
+  const allow = claude.overrides;
+
+  if (overrides.model && !allow.models.includes(overrides.model)) {
+    throw new TaskFailure(`Model "${overrides.model}" is not allowed (allowed: ${allow.models.join(", ") || "none"})`, "config");
+  }
+
+  const allowedTools = overrides.allowed_tools ?? [];
+  const deniedTools = allowedTools.filter((tool) => !allow.tools.includes(tool.replace(/\(.*\)$/, "")));
+  if (deniedTools.length > 0) {
+    throw new TaskFailure(`Tools not allowed: ${deniedTools.join(", ")}`, "config");
+  }
+
+  // Every flag must be allowlisted, and a bare value may only directly follow
+  // one (without its own =value) as that flag's value
+  const args = overrides.args ?? [];
+  const isAllowedFlag = (arg: string | undefined) => arg !== undefined && arg.startsWith("-") && allow.args.includes(arg.split("=")[0]);
+  const deniedArgs = args.filter((arg, i) =>
+    arg.startsWith("-") ? !isAllowedFlag(arg) : !(isAllowedFlag(args[i - 1]) && !args[i - 1].includes("="))
+  );
+  if (deniedArgs.length > 0) {
+    throw new TaskFailure(`Arguments not allowed: ${deniedArgs.join(" ")}`, "config");
+  }
+
+  let timeoutMs = claude.timeout_ms;
+  if (overrides.timeout_ms) {
+    if (overrides.timeout_ms > allow.max_timeout_ms) {
+      throw new TaskFailure(`Timeout ${overrides.timeout_ms}ms exceeds the ${allow.max_timeout_ms}ms maximum`, "config");
+    }
+    timeoutMs = overrides.timeout_ms;
+  }
+
+  let cwd = vaultPath;
+  if (overrides.cwd) {
+    cwd = resolve(vaultPath, overrides.cwd);
+    const rel = relative(vaultPath, cwd);
+    if (rel.startsWith("..") || isAbsolute(rel)) {
+      throw new TaskFailure(`Working directory "${overrides.cwd}" is outside the vault`, "config");
+    }
+    if (!existsSync(cwd)) {
+      throw new TaskFailure(`Working directory "${overrides.cwd}" does not exist`, "config");
+    }
+  }
+
+  return { model: overrides.model ?? null, allowed_tools: allowedTools, args, cwd, timeout_ms: timeoutMs };
+}
+
+/**
+ * Run a task's prompt on the executor and stream its output into the note
+ * until it ends. Returns null if the daemon is shutting down.
+ */
+async function runTaskExecutor(
+  taskName: string,
+  notePath: string,
+  noteContent: string,
+  run: RunOptions,
+  attempt: number,
+  prompt: string,
+  resumeSession: string | null = null
+): Promise<TaskRunResult | null> {
+  // Stream output into the note and the task transcript while it runs
+  const progress = createProgressWriter(notePath, noteContent, (command) => {
+    requestTaskStop(taskName, command, `status: ${command} set in the note`);
+  });
+  const transcript = createTranscriptWriter(taskName, attempt, prompt);
+
+  const request: ExecutorRequest = { id: taskName, prompt, run, resumeSession, onOutput: (line) => transcript.stdout(line) };
+  const handle = executor.start(request, (event) => {
+    if (event.kind === "text" || event.kind === "raw") {
+      progress.add(event.text);
+    } else if (event.kind === "tool") {
+      progress.add(`🔧 ${event.text}`);
+    }
+  });
+
+  activeProcesses.set(taskName, handle);
+  await recordTaskEvent(taskName, "started", { pid: handle.pid ?? undefined, attempt });
+
+  // Set timeout
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    handle.kill();
+    log("WARN", `Task timed out: ${taskName}`, { task: taskName, attempt });
+  }, run.timeout_ms);
+
+  // Wait for completion
+  let outcome: ExecutorOutcome;
+  try {
+    outcome = await handle.done;
+  } finally {
+    clearTimeout(timeout);
+    activeProcesses.delete(taskName);
+    await progress.stop();
+  }
+  const { exitCode, output, stderr } = outcome;
+  await transcript.finish(exitCode, stderr, timedOut);
+
+  if (shuttingDown) return null;
+
+  return {
+    exitCode,
+    output,
+    stderr,
+    timedOut,
+    stopped: takeStopRequest(taskName),
+  };
+}
+
+async function executeTask(task: TaskInfo): Promise<void> {
+  const taskName = basename(task.path);
+  const startedAt = Date.now();
+  let exitCode: number | undefined;
+  const logFields = (): LogFields => ({ task: taskName, duration_ms: Date.now() - startedAt, exit_code: exitCode });
+  // Linked from the note so a failed run can be looked into later
+  const transcriptLink = () => {
+    const path = taskTranscriptPath(taskName);
+    return existsSync(path) ? pathToFileURL(path).href : undefined;
+  };
+  await log("INFO", `Starting task: ${taskName}`, { task: taskName });
+
+  // Move to In Progress
+  let inProgressPath: string;
+  try {
+    inProgressPath = await moveTask(task.path, "In Progress");
+  } catch (err) {
+    await log("ERROR", `Failed to start task: ${taskName} - ${err}`, { task: taskName });
+    runningTasks.delete(taskName);
+    updateState({
+      status: state.active_tasks > 1 || runningAgentJobs.size > 0 ? "working" : "idle",
+      active_tasks: Math.max(0, state.active_tasks - 1),
+    });
+    processTaskQueue();
+    return;
+  }
+
+  try {
+    // Build prompt for Claude
+    const withContext = task.meta.context ?? config.context.enabled;
+    const prompt = renderPrompt(task.meta.prompt_template ?? "task", {
+      task_name: taskName,
+      content: task.content,
+      context: withContext ? await buildVaultContext(task.content, relative(config.vault_path, inProgressPath)) : "",
+      result_instructions: RESULT_INSTRUCTIONS,
+    }, parseFrontmatter(task.content).data);
+
+    const run = resolveRunOptions(task.meta);
+    const attempt = (taskJournal.get(taskName)?.attempts ?? 0) + 1;
+
+    // Continue the blocked conversation with just the answers when we can,
+    // rather than replaying the whole note in a new session
+    const answers = task.meta.status === "blocked" && task.meta.claude_session ? parseAnswers(task.content) : null;
+    let proc: TaskRunResult | null;
+
+    if (answers && task.meta.claude_session && executor.canResume) {
+      await log("INFO", `Resuming Claude session ${task.meta.claude_session} with ${answers.pairs.filter((p) => p.answer).length} answers: ${taskName}`, { task: taskName });
+      proc = await runTaskExecutor(
+        taskName, inProgressPath, task.content, run, attempt, buildResumePrompt(taskName, answers), task.meta.claude_session
+      );
+
+      if (proc && proc.exitCode !== 0 && /no conversation found|session.*not found/i.test(proc.stderr + proc.output.text)) {
+        await log("WARN", `Claude session expired, starting over: ${taskName}`, { task: taskName });
+        proc = await runTaskExecutor(taskName, inProgressPath, task.content, run, attempt, prompt);
+      }
+    } else {
+      proc = await runTaskExecutor(taskName, inProgressPath, task.content, run, attempt, prompt);
+    }
+
+    // Leave the file in In Progress for recovery on the next start
+    if (!proc) return;
+
+    if (proc.stopped) {
+      await settleStoppedTask({ ...task, path: inProgressPath }, proc.stopped);
+      runningTasks.delete(taskName);
+
+      updateState({
+        status: state.active_tasks > 1 || runningAgentJobs.size > 0 ? "working" : "idle",
+        active_tasks: Math.max(0, state.active_tasks - 1),
+      });
+      processTaskQueue();
+      return;
+    }
+
+    const { output, stderr } = proc;
+    const stdout = output.text;
+    exitCode = proc.exitCode;
+
+    if (proc.timedOut) {
+      throw new TaskFailure(`Timed out after ${run.timeout_ms}ms`, "timeout");
+    }
+
+    if (exitCode !== 0 || output.isError) {
+      const kind = RATE_LIMIT_PATTERN.test(stderr) || RATE_LIMIT_PATTERN.test(stdout) ? "rate_limit" : "exit";
+      throw new TaskFailure(`${executor.label} exited with code ${exitCode}: ${stderr || stdout}`, kind);
+    }
+
+    const result = parseTaskResult(stdout);
+    if (!result.structured) {
+      await log("DEBUG", `No ${RESULT_FENCE} block from Claude, used heuristics: ${taskName}`, { task: taskName });
+    }
+
+    if (result.status === "failed") {
+      throw new TaskFailure(result.summary || "Claude reported the task as failed", "reported");
+    }
+
+    // Remember the session so answers to a blocked task can resume it. The run
+    // got through, so retry bookkeeping is cleared and answers get a fresh budget.
+    const noteContent = updateFrontmatter(answers ? markQuestionsAnswered(task.content) : task.content, {
+      claude_session: output.sessionId ?? task.meta.claude_session ?? undefined,
+      transcript: transcriptLink(),
+      retry_attempt: undefined,
+      retry_after: undefined,
+      last_error: undefined,
+    });
+
+    const followUpFiles = result.status === "blocked" ? [] : await spawnFollowUps(task, result.follow_up_tasks);
+    await writeFile(inProgressPath, renderTaskResult(noteContent, result, followUpFiles));
+
+    if (result.status === "blocked") {
+      await moveTask(inProgressPath, "Blocked");
+      await recordTaskEvent(taskName, "blocked");
+      await log("INFO", `Task blocked with ${result.questions.length} questions: ${taskName}`, logFields());
+
+      updateState({
+        status: state.active_tasks > 1 || runningAgentJobs.size > 0 ? "working" : "blocked",
+        active_tasks: state.active_tasks - 1,
+      });
+    } else {
+      // Partial results still go to Completed; status: partial flags them
+      await moveTask(inProgressPath, "Completed");
+      await recordTaskEvent(taskName, "completed", { attempt, outcome: result.status });
+      await log("INFO", `Task ${result.status}: ${taskName}`, logFields());
+
+      updateState({
+        status: state.active_tasks > 1 || runningAgentJobs.size > 0 ? "working" : "idle",
+        active_tasks: state.active_tasks - 1,
+      });
+    }
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    const kind: FailureKind = err instanceof TaskFailure ? err.kind : "exit";
+    const attempt = task.meta.retry_attempt + 1;
+    const { retry } = config.tasks;
+
+    // Transient failures go back to Inbox with a backoff. retry_after in the
+    // frontmatter holds the task in the queue, even across restarts.
+    if (retry.retry_on.includes(kind) && attempt < retry.max_attempts) {
+      const retryAt = new Date(Date.now() + retryDelay(attempt));
+      await log("WARN", `Task failed (${kind}), retry ${attempt}/${retry.max_attempts - 1} at ${retryAt.toLocaleTimeString()}: ${taskName}`, logFields());
+
+      try {
+        const retryContent = updateFrontmatter(task.content, {
+          retry_attempt: attempt,
+          retry_after: retryAt.toISOString(),
+          last_error: `${kind}: ${errorMsg.split("\n")[0].slice(0, 200)}`,
+          transcript: transcriptLink(),
+        });
+        await writeFile(inProgressPath, retryContent);
+        const inboxPath = await moveTask(inProgressPath, "Inbox");
+        await recordTaskEvent(taskName, "retrying", { error: errorMsg, retry_at: retryAt.toISOString(), kind });
+        runningTasks.delete(taskName);
+        enqueueTask(inboxPath, retryContent);
+
+        updateState({
+          status: state.active_tasks > 1 || runningAgentJobs.size > 0 ? "working" : "idle",
+          active_tasks: Math.max(0, state.active_tasks - 1),
+          last_error: errorMsg,
+        });
+        processTaskQueue();
+        return;
+      } catch {
+        // Fall through and block the task
+      }
+    }
+
+    await log("ERROR", `Task failed: ${taskName} - ${errorMsg}`, logFields());
+
+    // Append error and move to Blocked. Retry bookkeeping is cleared so a
+    // manual retry starts with a fresh budget.
+    const transcript = transcriptLink();
+    const errorFrontmatter = updateFrontmatter(task.content, {
+      retry_attempt: undefined,
+      retry_after: undefined,
+      last_error: undefined,
+      status: "error",
+      error_kind: kind,
+      attempts: attempt,
+      error_at: new Date().toISOString(),
+      transcript,
+    });
+    const errorContent = `${errorFrontmatter.trimEnd()}
+
+---
+
+## Error
+
+\`\`\`
+${errorMsg}
+\`\`\`
+${transcript ? `\nThe full prompt and output are in the [transcript](${transcript}).\n` : ""}
+<!-- Fix the issue and move back to Inbox to retry -->`;
+
+    try {
+      await writeFile(inProgressPath, errorContent);
+      await moveTask(inProgressPath, "Blocked");
+    } catch {
+      // File might have been moved already
+    }
+    await recordTaskEvent(taskName, "failed", { error: errorMsg, kind });
+
+    updateState({
+      status: state.active_tasks > 1 || runningAgentJobs.size > 0 ? "working" : "error",
+      active_tasks: Math.max(0, state.active_tasks - 1),
+      last_error: errorMsg,
+    });
+  }
+
+  // A slot just freed up
+  runningTasks.delete(taskName);
+  processTaskQueue();
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+/**
+ * Queue ordering: overdue tasks first, then by priority, then earliest due
+ * date, then arrival order.
+ */
+function compareTasks(a: TaskInfo, b: TaskInfo): number {
+  const now = Date.now();
+  const aOverdue = a.meta.due !== null && a.meta.due.getTime() < now;
+  const bOverdue = b.meta.due !== null && b.meta.due.getTime() < now;
+  if (aOverdue !== bOverdue) return aOverdue ? -1 : 1;
+
+  const byPriority = PRIORITY_RANK[a.meta.priority] - PRIORITY_RANK[b.meta.priority];
+  if (byPriority !== 0) return byPriority;
+
+  const aDue = a.meta.due?.getTime() ?? Infinity;
+  const bDue = b.meta.due?.getTime() ?? Infinity;
+  if (aDue !== bDue) return aDue - bDue;
+
+  return a.queuedAt - b.queuedAt;
+}
+
+/** True if a task with this file name is already queued or running. */
+function isTaskTracked(name: string): boolean {
+  return runningTasks.has(name) || taskQueue.some((t) => t.name === name);
+}
+
+function enqueueTask(path: string, content: string): TaskInfo {
+  const task: TaskInfo = {
+    path,
+    name: basename(path),
+    content,
+    meta: parseTaskMeta(parseFrontmatter(content).data),
+    queuedAt: Date.now(),
+  };
+  taskQueue.push(task);
+  recordTaskEvent(task.name, "queued");
+  return task;
+}
+
+/**
+ * Pick up edits to a queued task's note: priority, due date and other
+ * frontmatter changes take effect on the next queue pass, and `status:
+ * cancel` or `status: pause` take the task out of the queue.
+ */
+async function refreshQueuedTask(filePath: string): Promise<void> {
+  const task = taskQueue.find((t) => t.path === filePath);
+  if (!task) return;
+
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch {
+    return;
+  }
+
+  const command = parseStatusCommand(content);
+  if (command) {
+    taskQueue.splice(taskQueue.indexOf(task), 1);
+    await settleStoppedTask({ ...task, content }, { action: command, reason: `status: ${command} set in the note` });
+    processTaskQueue();
+    return;
+  }
+
+  const previous = task.meta.priority;
+  task.content = content;
+  task.meta = parseTaskMeta(parseFrontmatter(content).data);
+  if (task.meta.priority !== previous) {
+    await log("INFO", `Reprioritised ${task.name}: ${previous} -> ${task.meta.priority}`);
+  }
+  processTaskQueue();
+}
+
+async function processTaskQueue(): Promise<void> {
+  if (intakePaused) return;
+
+  // Re-sort on every pass since tasks become overdue while they wait
+  taskQueue.sort(compareTasks);
+
+  // Fail tasks whose prerequisites failed; they'd otherwise wait forever
+  const doomed: Array<{ task: TaskInfo; reason: string }> = [];
+  for (const task of taskQueue) {
+    const deps = checkDependencies(task);
+    if (deps.state === "failed") doomed.push({ task, reason: deps.reason });
+  }
+  if (doomed.length > 0) {
+    for (const { task } of doomed) taskQueue.splice(taskQueue.indexOf(task), 1);
+    Promise.all(doomed.map(({ task, reason }) => failQueuedTask(task, reason)))
+      .then(() => processTaskQueue()); // Their own dependents may fail next
+  }
+
+  while (state.active_tasks < config.tasks.max_concurrent) {
+    // Skip tasks still backing off after a failure or waiting on prerequisites
+    const index = taskQueue.findIndex((t) =>
+      (!t.meta.retry_after || t.meta.retry_after.getTime() <= Date.now()) && checkDependencies(t).state === "ready"
+    );
+    if (index === -1) break;
+
+    const [task] = taskQueue.splice(index, 1);
+    runningTasks.add(task.name);
+
+    // Count the slot before the first await so the loop honours max_concurrent
+    updateState({
+      status: "working",
+      active_tasks: state.active_tasks + 1,
+    });
+    executeTask(task); // Don't await - run concurrently
+  }
+
+  scheduleRetryWakeup();
+}
+
+/**
+ * Arm a timer for the earliest backing-off task so it runs even if nothing
+ * else wakes the queue.
+ */
+function scheduleRetryWakeup(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const waits = taskQueue
+    .map((t) => t.meta.retry_after?.getTime() ?? 0)
+    .filter((time) => time > Date.now());
+  if (waits.length === 0) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processTaskQueue();
+  }, Math.min(...waits) - Date.now());
+}
+
+// =============================================================================
+// Backups
+// =============================================================================
+
+/**
+ * Resolve a vault-relative note path, refusing anything that escapes the
+ * vault. Returns null for invalid paths.
+ */
+function resolveVaultNote(relPath: string): string | null {
+  const fullPath = resolve(config.vault_path, relPath);
+  const rel = relative(config.vault_path, fullPath);
+  if (!rel || rel.startsWith("..") || isAbsolute(rel) || !rel.endsWith(".md")) return null;
+  return fullPath;
+}
+
+/** Backups of a note live under backups.path/notes/<vault-relative path>/. */
+function noteBackupDir(relPath: string): string {
+  return join(config.backups.path, "notes", relPath);
+}
+
+/** Write via a temp file and rename so readers never see a half-written note. */
+async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tmpPath = join(dirname(path), `.${basename(path)}.${process.pid}.tmp`);
+  await writeFile(tmpPath, content);
+  await rename(tmpPath, path);
+}
+
+/**
+ * Where @agent working copies go: inside the vault, since Claude runs there and
+ * may only edit files under it, but in a hidden folder Obsidian and sync skip.
+ */
+function agentWorkDir(): string {
+  return join(config.vault_path, "_agent", "daemon", ".work");
+}
+
+function isAgentWorkPath(filePath: string): boolean {
+  return filePath === agentWorkDir() || filePath.startsWith(agentWorkDir() + "/");
+}
+
+/** Backup versions of a note, newest first. */
+async function listBackups(relPath: string): Promise<string[]> {
+  try {
+    const files = await readdir(noteBackupDir(relPath));
+    return files.filter((f) => f.endsWith(".md")).map((f) => f.slice(0, -3)).sort().reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Store a version of a note and prune the oldest beyond backups.max_versions.
+ * Returns the version id, reusing the latest one if the content hasn't
+ * changed since.
+ */
+async function backupNote(relPath: string, content: string): Promise<string> {
+  const dir = noteBackupDir(relPath);
+  const versions = await listBackups(relPath);
+
+  if (versions.length > 0) {
+    const latest = await readFile(join(dir, `${versions[0]}.md`), "utf-8").catch(() => null);
+    if (latest === content) return versions[0];
+  }
+
+  const version = new Date().toISOString().replace(/[:.]/g, "-");
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, `${version}.md`), content);
+
+  for (const old of [version, ...versions].slice(config.backups.max_versions)) {
+    await unlink(join(dir, `${old}.md`)).catch(() => {});
+  }
+  return version;
+}
+
+/**
+ * Put a backup version back in place. The current content is backed up first,
+ * so a restore can itself be undone.
+ */
+async function restoreBackup(relPath: string, version: string): Promise<void> {
+  const notePath = resolveVaultNote(relPath);
+  if (!notePath) throw new Error(`Not a note in the vault: ${relPath}`);
+  if (!(await listBackups(relPath)).includes(version)) {
+    throw new Error(`No backup version ${version} for ${relPath}`);
+  }
+
+  const content = await readFile(join(noteBackupDir(relPath), `${version}.md`), "utf-8");
+  const current = await readFile(notePath, "utf-8").catch(() => null);
+  if (current !== null) await backupNote(relPath, current);
+
+  await mkdir(dirname(notePath), { recursive: true });
+  await writeFileAtomic(notePath, content);
+  await log("INFO", `Restored ${relPath} from backup ${version}`);
+}
+
+const CONFLICT_COPY_PATTERN = / \(agent conflict [^)]*\)\.md$/;
+
+/** `Note.md` -> `Note (agent conflict 2026-01-15 2130).md`, next to the note. */
+function conflictCopyPath(notePath: string): string {
+  const stamp = new Date().toISOString().slice(0, 16).replace("T", " ").replace(":", "");
+  const base = notePath.replace(/\.md$/, "");
+  let candidate = `${base} (agent conflict ${stamp}).md`;
+  for (let n = 2; existsSync(candidate); n++) {
+    candidate = `${base} (agent conflict ${stamp} ${n}).md`;
+  }
+  return candidate;
+}
+
+// =============================================================================
+// @agent Index
+// =============================================================================
+
+async function loadAgentIndex(): Promise<void> {
+  agentIndex.clear();
+  if (!existsSync(config.agent_index_path)) return;
+
+  try {
+    const data = JSON.parse(await readFile(config.agent_index_path, "utf-8"));
+    let interrupted = 0;
+    for (const [path, entry] of Object.entries<AgentIndexEntry>(data.files ?? {})) {
+      // Commands still marked as running were cut off by the last shutdown.
+      // Leave their notes out so the next scan rereads them and runs them again.
+      if (entry.dispatched?.length) {
+        interrupted += entry.dispatched.length;
+        continue;
+      }
+      agentIndex.set(path, entry);
+    }
+    if (interrupted > 0) {
+      await log("WARN", `${interrupted} @agent commands were interrupted by the last shutdown and will run again`);
+    }
+  } catch (err) {
+    await log("WARN", `Failed to load @agent index, rebuilding it: ${err}`);
+  }
+}
+
+async function saveAgentIndex(): Promise<void> {
+  if (agentIndexSaveTimer) clearTimeout(agentIndexSaveTimer);
+  agentIndexSaveTimer = null;
+
+  try {
+    const tmpPath = `${config.agent_index_path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify({ version: 1, files: Object.fromEntries(agentIndex) }));
+    await rename(tmpPath, config.agent_index_path);
+  } catch (err) {
+    await log("WARN", `Failed to save @agent index: ${err}`);
+  }
+}
+
+/** Coalesce index writes; a scan can touch thousands of entries. */
+function scheduleAgentIndexSave(): void {
+  if (!agentIndexSaveTimer) agentIndexSaveTimer = setTimeout(saveAgentIndex, 1000);
+}
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Identify a command by its line text. Repeats of the same line in one note
+ * are told apart by occurrence, not line number, so edits above a command
+ * don't make it look new.
+ */
+function agentCommandKeys(commands: AgentCommand[]): string[] {
+  const seen: Map<string, number> = new Map();
+  return commands.map((cmd) => {
+    const hash = hashContent(cmd.fullMatch.trim()).slice(0, 16);
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+    return `${hash}#${occurrence}`;
+  });
+}
+
+/**
+ * Check one note against the index and dispatch any @agent commands in it
+ * that aren't already running. Unchanged notes (same mtime and size, or same
+ * hash) aren't parsed again.
+ */
+async function checkNoteForAgentCommands(filePath: string): Promise<void> {
+  const relPath = relative(config.vault_path, filePath);
+
+  let stats: Awaited<ReturnType<typeof stat>>;
+  try {
+    stats = await stat(filePath);
+  } catch {
+    // Deleted since it was listed
+    if (agentIndex.delete(relPath)) scheduleAgentIndexSave();
+    markNoteLinksStale(filePath);
+    return;
+  }
+
+  const known = agentIndex.get(relPath);
+  if (known && known.mtime_ms === stats.mtimeMs && known.size === stats.size) return;
+  markNoteLinksStale(filePath);
+
+  const content = await readFile(filePath, "utf-8");
+  const hash = hashContent(content);
+  // A concurrent check of the same note may have indexed it while we read
+  const entry: AgentIndexEntry = agentIndex.get(relPath) ?? { mtime_ms: 0, size: 0, hash: "", dispatched: [] };
+  const changed = entry.hash !== hash;
+  entry.mtime_ms = stats.mtimeMs;
+  entry.size = stats.size;
+  entry.hash = hash;
+  agentIndex.set(relPath, entry);
+  scheduleAgentIndexSave();
+  if (!changed) return;
+
+  const commands = extractAgentCommands(content);
+  const keys = agentCommandKeys(commands);
+
+  // Claim commands before the next await so a concurrent check of the same
+  // note skips them
+  const claimed = commands.map((cmd, i) => ({ cmd, key: keys[i] })).filter(({ key }) => !entry.dispatched.includes(key));
+  entry.dispatched.push(...claimed.map(({ key }) => key));
+
+  for (const { cmd, key } of claimed) {
+    agentQueue.push({ id: `${relPath}#${key}`, filePath, relPath, key, command: cmd, queuedAt: Date.now() });
+  }
+
+  const skipped = commands.length - claimed.length;
+  if (skipped > 0) {
+    await log("DEBUG", `${skipped} @agent commands in ${basename(filePath)} already queued or running, not dispatching again`);
+  }
+
+  if (claimed.length > 0) processAgentQueue();
+}
+
+/** Drop a command's claim in the index so a later edit can dispatch it again. */
+function releaseAgentCommand(job: AgentJob): void {
+  const entry = agentIndex.get(job.relPath);
+  if (entry) entry.dispatched = entry.dispatched.filter((k) => k !== job.key);
+  scheduleAgentIndexSave();
+}
+
+// =============================================================================
+// @agent Tag Processing
+// =============================================================================
+
+/**
+ * The `agent[:name][[scope]]` header shared by every command form, e.g.
+ * `@agent:summarize[section]`. `@agent-failed` and friends don't match.
+ */
+const AGENT_HEADER = /agent(?::([\w-]+))?(?:\[(note|section|selection)\])?/;
+const AGENT_LINE = new RegExp(`^\\s*@${AGENT_HEADER.source}(?=\\s|$)\\s*(.*)$`);
+const AGENT_FENCE = new RegExp(`^\\s*\`\`\`${AGENT_HEADER.source}\\s*$`);
+// Callouts can't nest brackets, so the scope goes in Obsidian's |metadata slot
+const AGENT_CALLOUT = /^\s*>\s*\[!agent(?::([\w-]+))?(?:\|(note|section|selection))?\][+-]?\s*(.*)$/i;
+
+function toAgentScope(value: string | undefined): AgentScope | null {
+  return value === "note" || value === "section" || value === "selection" ? value : null;
+}
+
+/**
+ * Extract real @agent commands from markdown content. Three forms:
+ * - `@agent do something` on its own line
+ * - a fenced ```agent block, whose body is the instruction
+ * - a `> [!agent]` callout, whose title and body are the instruction
+ * Filters out:
+ * - Content inside other fenced code blocks (```)
+ * - Content inside inline code (`...`)
+ * - Lines that look like documentation (tables, ASCII art, quotes)
+ * - @agent not at the start of a line
+ */
+export function extractAgentCommands(content: string): AgentCommand[] {
+  const results: AgentCommand[] = [];
+  const lines = content.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced blocks: an agent block is a command, anything else is skipped whole
+    if (/^\s*```/.test(line)) {
+      const fence = line.match(AGENT_FENCE);
+      let end = i + 1;
+      while (end < lines.length && !/^\s*```\s*$/.test(lines[end])) end++;
+
+      if (fence && end < lines.length) {
+        const body = lines.slice(i + 1, end).join("\n").trim();
+        if (body || fence[1]) {
+          results.push({
+            fullMatch: lines.slice(i, end + 1).join("\n"),
+            instruction: body,
+            lineNumber: i + 1,
+            lineCount: end - i + 1,
+            form: "fence",
+            name: fence[1] ?? null,
+            scope: toAgentScope(fence[2]),
+          });
+        }
+      }
+      i = end;
+      continue;
+    }
+
+    const callout = line.match(AGENT_CALLOUT);
+    if (callout) {
+      let end = i + 1;
+      while (end < lines.length && /^\s*>/.test(lines[end])) end++;
+
+      const body = lines.slice(i + 1, end).map((l) => l.replace(/^\s*>\s?/, ""));
+      const instruction = [callout[3], ...body].join("\n").trim();
+      if (instruction || callout[1]) {
+        results.push({
+          fullMatch: lines.slice(i, end).join("\n"),
+          instruction,
+          lineNumber: i + 1,
+          lineCount: end - i,
+          form: "callout",
+          name: callout[1] ?? null,
+          scope: toAgentScope(callout[2]),
+        });
+      }
+      i = end - 1;
+      continue;
+    }
+
+    // Skip lines that look like documentation/code
+    if (
+      line.includes("|") || // Table rows
+      line.includes("→") || // ASCII arrows (often in diagrams)
+      line.trim().startsWith(">") || // Blockquotes
+      line.trim().startsWith("#") && line.includes("@agent") || // Headers mentioning @agent
+      /^\s{4,}/.test(line) || // Indented code blocks (4+ spaces)
+      line.includes("`@agent") || // Inline code containing @agent
+      line.includes("@agent`") // Inline code containing @agent
+    ) {
+      continue;
+    }
+
+    // Match @agent at start of line (with optional whitespace)
+    const match = line.match(AGENT_LINE);
+    if (match && (match[3].trim() || match[1])) {
+      results.push({
+        fullMatch: line,
+        instruction: match[3].trim(),
+        lineNumber: i + 1,
+        lineCount: 1,
+        form: "line",
+        name: match[1] ?? null,
+        scope: toAgentScope(match[2]),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * The text a command's scope covers, given the note's lines and the command's
+ * 0-based line index:
+ * - section: from the nearest heading above the command to the next heading
+ *   of the same or a higher level
+ * - selection: the paragraph or list directly above the command
+ * Returns null for note scope (the whole note is sent).
+ */
+function scopedContent(lines: string[], index: number, scope: AgentScope): string | null {
+  if (scope === "note") return null;
+
+  if (scope === "section") {
+    let start = index;
+    while (start > 0 && !/^#{1,6}\s/.test(lines[start])) start--;
+    const level = lines[start].match(/^(#{1,6})\s/)?.[1].length ?? 0;
+
+    let end = index + 1;
+    while (end < lines.length) {
+      const heading = lines[end].match(/^(#{1,6})\s/);
+      if (heading && level > 0 && heading[1].length <= level) break;
+      if (heading && level === 0) break;
+      end++;
+    }
+    return lines.slice(start, end).join("\n");
+  }
+
+  let end = index;
+  while (end > 0 && !lines[end - 1].trim()) end--;
+  let start = end;
+  while (start > 0 && lines[start - 1].trim()) start--;
+  return lines.slice(start, end).join("\n");
+}
+
+function updateAgentState(): void {
+  const busy = state.active_tasks > 0 || runningAgentJobs.size > 0;
+  updateState({
+    active_agent_commands: runningAgentJobs.size,
+    queued_agent_commands: agentQueue.length,
+    ...(intakePaused ? {} : busy ? { status: "working" } : state.status === "working" ? { status: "idle" } : {}),
+  });
+}
+
+/**
+ * Start queued @agent commands while there are free slots. @agent commands
+ * have their own budget (agent_tags.max_concurrent) so a scan that finds many
+ * tags can't starve Inbox tasks, or the other way round. Commands in the same
+ * note run one at a time since each edits the note in place.
+ */
+function processAgentQueue(): void {
+  if (intakePaused || shuttingDown) return;
+
+  while (runningAgentJobs.size < config.agent_tags.max_concurrent) {
+    const busyNotes = new Set([...runningAgentJobs.values()].map((job) => job.relPath));
+    const index = agentQueue.findIndex((job) => !busyNotes.has(job.relPath));
+    if (index === -1) break;
+
+    const [job] = agentQueue.splice(index, 1);
+    runningAgentJobs.set(job.id, job);
+    runAgentJob(job); // Don't await - run concurrently
+  }
+
+  updateAgentState();
+}
+
+async function runAgentJob(job: AgentJob): Promise<void> {
+  try {
+    await processAgentTag(job);
+  } finally {
+    runningAgentJobs.delete(job.id);
+    // Keep the claim when shutting down so the command reruns on the next start
+    if (!shuttingDown) {
+      releaseAgentCommand(job);
+      processAgentQueue();
+    }
+  }
+}
+
+/**
+ * Cancel a queued or running @agent command. Returns false if there's no
+ * command with that id.
+ */
+async function cancelAgentCommand(id: string): Promise<boolean> {
+  const index = agentQueue.findIndex((job) => job.id === id);
+  if (index !== -1) {
+    const [job] = agentQueue.splice(index, 1);
+    releaseAgentCommand(job);
+    updateAgentState();
+    await log("INFO", `Cancelled queued @agent in ${basename(job.filePath)}:${job.command.lineNumber}`);
+    return true;
+  }
+
+  const proc = agentProcesses.get(id);
+  if (!proc) return false;
+
+  cancelledAgentJobs.add(id);
+  proc.kill();
+  return true;
+}
+
+function describeAgentJob(job: AgentJob): AgentJobSummary {
+  return {
+    id: job.id,
+    file: job.relPath,
+    line: job.command.lineNumber,
+    instruction: job.command.instruction,
+  };
+}
+
+/**
+ * Apply Claude's edited working copy to the note, unless the note changed
+ * while Claude worked. Then the edit goes to a conflict copy next to the note
+ * instead, so neither side's changes are lost.
+ */
+async function applyAgentEdit(job: AgentJob, snapshotHash: string, workPath: string): Promise<string | null> {
+  const fileName = basename(job.filePath);
+  const edited = await readFile(workPath, "utf-8");
+  const current = await readFile(job.filePath, "utf-8").catch(() => null);
+
+  // Nothing to apply (or Claude edited the note directly after all)
+  if (hashContent(edited) === snapshotHash) return null;
+
+  if (current !== null && hashContent(current) === snapshotHash) {
+    if (current !== edited) await writeFileAtomic(job.filePath, edited);
+    return null;
+  }
+
+  const copyPath = conflictCopyPath(job.filePath);
+  await writeFile(copyPath, edited);
+  await log(
+    "WARN",
+    `${fileName} ${current === null ? "was deleted" : "changed"} while @agent was running; wrote its edit to ${basename(copyPath)}`
+  );
+  return copyPath;
+}
+
+/**
+ * Find the line index of a job's command in the note as it is now, matching
+ * the exact line text and its occurrence. Null if it's gone.
+ */
+function findAgentCommandLine(content: string, job: AgentJob): number | null {
+  const occurrence = Number(job.key.split("#")[1] ?? 1);
+  const matches = extractAgentCommands(content).filter((cmd) => cmd.fullMatch === job.command.fullMatch);
+  const match = matches[Math.min(occurrence, matches.length) - 1];
+  return match ? match.lineNumber - 1 : null;
+}
+
+/**
+ * Rewrite a command to an `@agent-failed` marker (`agent-failed` for blocks
+ * and callouts) followed by a callout with the reason, so scans don't pick it
+ * up again. Returns null if the command is gone or couldn't be marked.
+ */
+export function markCommandFailed(content: string, job: AgentJob, reason: string): string | null {
+  const index = findAgentCommandLine(content, job);
+  if (index === null) return null;
+
+  const lines = content.split("\n");
+  const { form, lineCount } = job.command;
+  // Callouts match in any case, e.g. `> [!Agent]`, so the marker must too
+  const marker = { line: /@agent/, fence: /```agent/, callout: /\[!agent/i }[form];
+  const marked = lines[index].replace(marker, (match) => `${match}-failed`);
+  if (marked === lines[index]) return null;
+  lines[index] = marked;
+
+  const indent = lines[index].match(/^\s*/)?.[0] ?? "";
+  const callout = [`> [!failure] @agent failed ${new Date().toLocaleString()}`, ...reason.trim().split("\n").slice(0, 10)]
+    .map((line, i) => `${indent}${i === 0 ? line : `> ${line}`.trimEnd()}`);
+  // A blank line keeps the reason from merging into a callout above it
+  lines.splice(index + lineCount, 0, ...(form === "line" ? [] : [""]), ...callout);
+  return lines.join("\n");
+}
+
+/** Mark a command failed in its note. Returns false if it couldn't be marked. */
+async function markAgentCommandFailed(job: AgentJob, reason: string): Promise<boolean> {
+  try {
+    const marked = markCommandFailed(await readFile(job.filePath, "utf-8"), job, reason);
+    if (marked === null) return false;
+
+    await writeFileAtomic(job.filePath, marked);
+    return true;
+  } catch (err) {
+    await log("ERROR", `Failed to mark @agent line in ${basename(job.filePath)}: ${err}`);
+    return false;
+  }
+}
+
+/**
+ * The instruction, scope and prompt template for a command. A named agent is
+ * looked up in agent_tags.agents, then as a prompt template of the same name.
+ * Throws for a name that's neither.
+ */
+function resolveAgentCommand(
+  command: AgentCommand
+): { instruction: string; scope: AgentScope; template: string; context: boolean } {
+  const context = config.context.enabled;
+  if (!command.name) return { instruction: command.instruction, scope: command.scope ?? "note", template: "agent", context };
+
+  const definition = config.agent_tags.agents[command.name];
+  if (!definition) {
+    if (promptTemplates.has(command.name)) {
+      return { instruction: command.instruction, scope: command.scope ?? "note", template: command.name, context };
+    }
+    throw new Error(
+      `Unknown agent "${command.name}". Define it under agent_tags.agents in config or add ${command.name}.md to the prompts folder.`
+    );
+  }
+
+  const prompt = definition.prompt ?? "";
+  const instruction = prompt.includes("{{instruction}}")
+    ? prompt.replaceAll("{{instruction}}", command.instruction)
+    : [prompt, command.instruction].filter(Boolean).join("\n\n");
+  return {
+    instruction,
+    scope: command.scope ?? definition.scope ?? "note",
+    template: definition.template ?? "agent",
+    context: definition.context ?? context,
+  };
+}
+
+async function processAgentTag(job: AgentJob): Promise<void> {
+  const { filePath, command } = job;
+  const { fullMatch, lineNumber } = command;
+  const fileName = basename(filePath);
+  const label = command.name ? `@agent:${command.name}` : "@agent";
+  const startedAt = Date.now();
+  let exitCode: number | undefined;
+  const logFields = (): LogFields => ({ agent: job.id, file: job.relPath, duration_ms: Date.now() - startedAt, exit_code: exitCode });
+  const metricRun = (error?: string) => ({ duration_ms: Date.now() - startedAt, wait_ms: startedAt - job.queuedAt, error });
+  await log("INFO", `Processing ${label} in ${fileName}:${lineNumber}: "${command.instruction.replace(/\s+/g, " ").slice(0, 50)}..."`, { agent: job.id, file: job.relPath });
+
+  // Claude edits a working copy; the note itself is only written once we know
+  // nobody else changed it in the meantime
+  const workPath = join(agentWorkDir(), `${randomBytes(6).toString("hex")}-${fileName}`);
+
+  try {
+    const content = await readFile(filePath, "utf-8");
+    // Edited or deleted while queued; runAgentJob releases the claim, so an
+    // edit that brings it back dispatches it again
+    const index = findAgentCommandLine(content, job);
+    if (index === null) {
+      await log("INFO", `${label} in ${fileName}:${lineNumber} is no longer in the note, skipping`, { agent: job.id, file: job.relPath });
+      return;
+    }
+
+    const snapshotHash = hashContent(content);
+    const version = await backupNote(job.relPath, content);
+    await mkdir(dirname(workPath), { recursive: true });
+    await writeFile(workPath, content);
+    await log("DEBUG", `Backed up ${job.relPath} as ${version} before @agent`);
+
+    const { instruction, scope, template, context } = resolveAgentCommand(command);
+    const lastLine = lineNumber + command.lineCount - 1;
+
+    const prompt = renderPrompt(template, {
+      file: filePath,
+      working_copy: workPath,
+      lines: lastLine > lineNumber ? `${lineNumber}-${lastLine}` : String(lineNumber),
+      instruction,
+      scope,
+      content: scopedContent(content.split("\n"), index, scope) ?? content,
+      note_content: content,
+      command: fullMatch,
+      note_name: basename(filePath, ".md"),
+      context: context ? await buildVaultContext(content, job.relPath) : "",
+    }, parseFrontmatter(content).data);
+
+    if (!executor.canEditFiles) {
+      throw new Error(`The ${executor.type} executor can't edit notes, so it can't run @agent commands`);
+    }
+
+    const run: RunOptions = { model: null, allowed_tools: [], args: [], cwd: config.vault_path, timeout_ms: config.agent_tags.timeout_ms };
+    const handle = executor.start({ id: job.id, prompt, run, workingCopy: workPath }, () => {});
+    agentProcesses.set(job.id, handle);
+
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      handle.kill();
+    }, config.agent_tags.timeout_ms);
+
+    // Only stderr is reported; the edit is in the working copy
+    let outcome: ExecutorOutcome;
+    try {
+      outcome = await handle.done;
+    } finally {
+      clearTimeout(timeout);
+      agentProcesses.delete(job.id);
+    }
+    const { stderr } = outcome;
+    exitCode = outcome.exitCode;
+
+    if (shuttingDown) return;
+
+    if (cancelledAgentJobs.delete(job.id)) {
+      await log("INFO", `Cancelled @agent in ${fileName}:${lineNumber}`, logFields());
+      await markAgentCommandFailed(job, "Cancelled via the control API.");
+      recordAgentMetric(job, "cancelled", metricRun());
+      return;
+    }
+
+    if (timedOut) {
+      throw new Error(`Timed out after ${config.agent_tags.timeout_ms}ms`);
+    }
+
+    if (exitCode !== 0) {
+      throw new Error(`${executor.label} exited with code ${exitCode}: ${stderr}`);
+    }
+
+    // A command whose line survives would run again on every edit of the note
+    const conflictCopy = await applyAgentEdit(job, snapshotHash, workPath);
+    const leftover = conflictCopy
+      ? `The note changed while @agent was running. Its edit was saved to [[${basename(conflictCopy, ".md")}]] instead.`
+      : "Claude finished without removing the @agent line.";
+    if (await markAgentCommandFailed(job, leftover)) {
+      await log("WARN", `@agent line still present in ${fileName}:${lineNumber}, marked as failed`, logFields());
+      recordAgentMetric(job, "failed", metricRun(leftover));
+      return;
+    }
+
+    await log("INFO", `Completed @agent in ${fileName}`, logFields());
+    recordAgentMetric(job, "completed", metricRun());
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    await log("ERROR", `@agent failed in ${fileName}: ${errorMsg}`, logFields());
+    await markAgentCommandFailed(job, errorMsg);
+    recordAgentMetric(job, "failed", metricRun(errorMsg));
+  } finally {
+    await unlink(workPath).catch(() => {});
+  }
+}
+
+async function scanForAgentTags(): Promise<void> {
+  if (intakePaused) {
+    await log("DEBUG", "Intake paused, skipping @agent scan");
+    return;
+  }
+  // The interval, POST /scan and a slow first walk of a big vault can overlap
+  if (agentScanRunning) {
+    await log("DEBUG", "@agent scan already running, skipping");
+    return;
+  }
+  agentScanRunning = true;
+
+  await log("DEBUG", "Scanning vault for @agent tags...");
+  updateState({ last_scan: new Date().toISOString() });
+
+  const ignorePatterns = compileIgnorePatterns();
+  const seen: Set<string> = new Set();
+
+  async function scanDirectory(dir: string): Promise<void> {
+    const entries = await readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      const relativePath = relative(config.vault_path, fullPath);
+
+      // Check ignore patterns; prompt templates and schedules talk about @agent but aren't notes
+      if (ignorePatterns.some((regex) => regex.test(relativePath)) || isPromptTemplatePath(fullPath) || isScheduleNotePath(fullPath) || isDashboardPath(fullPath) || isAgentWorkPath(fullPath)) continue;
+
+      if (entry.isDirectory()) {
+        await scanDirectory(fullPath);
+      } else if (entry.name.endsWith(".md") && !CONFLICT_COPY_PATTERN.test(entry.name)) {
+        seen.add(relativePath);
+        try {
+          await checkNoteForAgentCommands(fullPath);
+        } catch (err) {
+          // File might have been deleted/moved
+        }
+      }
+    }
+  }
+
+  try {
+    await scanDirectory(config.vault_path);
+
+    // Forget notes that were deleted, moved or are now ignored
+    for (const path of agentIndex.keys()) {
+      if (!seen.has(path) && agentIndex.get(path)!.dispatched.length === 0) agentIndex.delete(path);
+    }
+    for (const path of vaultLinkCache.keys()) {
+      if (!seen.has(path)) markNoteLinksStale(join(config.vault_path, path));
+    }
+    await saveAgentIndex();
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    await log("ERROR", `Scan failed: ${errorMsg}`);
+  } finally {
+    agentScanRunning = false;
+  }
+}
+
+// =============================================================================
 // File Watchers
 // =============================================================================
 
 function setupTaskWatcher(): void {
   const inboxPath = join(config.vault_path, "Tasks", "Inbox");
+  const inProgressPath = join(config.vault_path, "Tasks", "In Progress");
   const blockedPath = join(config.vault_path, "Tasks", "Blocked");
 
   // Watch Inbox for new tasks
@@ -642,19 +4567,83 @@ function setupTaskWatcher(): void {
   });
 
   inboxWatcher.on("add", async (filePath) => {
-    if (!filePath.endsWith(".md")) return;
+    // Retries are queued directly, so the watcher may see them late
+    if (!filePath.endsWith(".md") || isTaskTracked(basename(filePath))) return;
 
     await log("INFO", `New task detected: ${basename(filePath)}`);
 
     try {
       const content = await readFile(filePath, "utf-8");
-      taskQueue.push({ path: filePath, name: basename(filePath), content });
+      const task = enqueueTask(filePath, content);
+      if (task.meta.priority !== "normal" || task.meta.due) {
+        await log("DEBUG", `Queued ${task.name} (priority: ${task.meta.priority}, due: ${task.meta.due?.toISOString() ?? "none"})`);
+      }
+      const deps = checkDependencies(task);
+      if (deps.state === "waiting") {
+        await log("INFO", `Task ${task.name} waiting on: ${deps.on.join(", ")}`);
+      }
       processTaskQueue();
     } catch (err) {
       await log("ERROR", `Failed to read task: ${basename(filePath)}`);
     }
   });
 
+  // Edits to queued tasks can reprioritise, pause or cancel them
+  inboxWatcher.on("change", (filePath) => {
+    if (filePath.endsWith(".md")) refreshQueuedTask(filePath);
+  });
+
+  // A queued task the user moved or deleted leaves the queue; moving it back
+  // queues it afresh with its current content
+  inboxWatcher.on("unlink", async (filePath) => {
+    const task = taskQueue.find((t) => t.path === filePath);
+    if (!task) return;
+    taskQueue.splice(taskQueue.indexOf(task), 1);
+
+    const paused = existsSync(join(config.vault_path, "Tasks", "Paused", task.name));
+    const reason = paused ? "Moved to Paused" : "Moved out of Inbox";
+    await recordTaskEvent(task.name, paused ? "paused" : "cancelled", { error: reason });
+    await log("INFO", `Dequeued ${task.name}: ${reason}`, { task: task.name });
+    processTaskQueue();
+  });
+
+  // Watch In Progress so running tasks can be stopped from the vault. The
+  // daemon only moves notes out of In Progress after Claude exits, so an
+  // unlink while the process is alive was the user.
+  const inProgressWatcher = watch(inProgressPath, {
+    ignoreInitial: true,
+    awaitWriteFinish: {
+      stabilityThreshold: config.tasks.debounce_ms,
+      pollInterval: 100,
+    },
+  });
+
+  inProgressWatcher.on("unlink", (filePath) => {
+    const taskName = basename(filePath);
+    if (!filePath.endsWith(".md") || !activeProcesses.has(taskName)) return;
+
+    const tasksDir = join(config.vault_path, "Tasks");
+    if (existsSync(join(tasksDir, "Paused", taskName))) {
+      requestTaskStop(taskName, "pause", "Moved to Paused");
+    } else if (existsSync(join(tasksDir, "Inbox", taskName))) {
+      requestTaskStop(taskName, "requeue", "Moved back to Inbox");
+    } else {
+      requestTaskStop(taskName, "cancel", "Note was moved out of In Progress");
+    }
+  });
+
+  inProgressWatcher.on("change", async (filePath) => {
+    const taskName = basename(filePath);
+    if (!filePath.endsWith(".md") || !activeProcesses.has(taskName)) return;
+
+    try {
+      const command = parseStatusCommand(await readFile(filePath, "utf-8"));
+      if (command) requestTaskStop(taskName, command, `status: ${command} set in the note`);
+    } catch {
+      // Moved away mid-read - the unlink handler takes it from here
+    }
+  });
+
   // Watch Blocked for user updates (to retry)
   const blockedWatcher = watch(blockedPath, {
     ignoreInitial: true,
@@ -682,60 +4671,787 @@ function setupTaskWatcher(): void {
         try {
           const content = await readFile(filePath, "utf-8");
 
-          // Move back to Inbox for reprocessing
-          const inboxPath = await moveTask(filePath, "Inbox");
-          await log("INFO", `Re-queued blocked task: ${basename(filePath)}`);
-        } catch (err) {
-          await log("ERROR", `Failed to re-queue task: ${basename(filePath)}`);
-        }
-      }, config.tasks.debounce_ms)
-    );
-  });
+          // Move back to Inbox for reprocessing
+          const inboxPath = await moveTask(filePath, "Inbox");
+          await log("INFO", `Re-queued blocked task: ${basename(filePath)}`);
+        } catch (err) {
+          await log("ERROR", `Failed to re-queue task: ${basename(filePath)}`);
+        }
+      }, config.tasks.debounce_ms)
+    );
+  });
+
+  taskWatchers = [inboxWatcher, inProgressWatcher, blockedWatcher];
+  log("INFO", "Task watcher started");
+}
+
+function setupAgentTagWatcher(): void {
+  // Initial scan
+  scanForAgentTags();
+  startAgentTagWatcher();
+  log("INFO", "@agent tag watcher started");
+}
+
+/** The periodic scan and the vault watcher, both timed from the current config. */
+function startAgentTagWatcher(): void {
+  // Periodic scan
+  agentScanTimer = setInterval(() => {
+    scanForAgentTags();
+  }, config.agent_tags.scan_interval_ms);
+
+  // Also watch for file changes with debounce
+  const watcher = watch(config.vault_path, {
+    ignored: [
+      /node_modules/,
+      /\.git/,
+      /\.obsidian/,
+      /Tasks\//,
+      /_agent\/daemon/,
+    ],
+    ignoreInitial: true,
+    awaitWriteFinish: {
+      stabilityThreshold: config.agent_tags.debounce_ms,
+      pollInterval: 1000,
+    },
+  });
+
+  // The link cache for vault context follows every note, not just @agent candidates
+  watcher.on("add", markNoteLinksStale);
+  watcher.on("unlink", markNoteLinksStale);
+
+  watcher.on("change", async (filePath) => {
+    markNoteLinksStale(filePath);
+    if (!filePath.endsWith(".md") || CONFLICT_COPY_PATTERN.test(filePath) || isPromptTemplatePath(filePath) || isScheduleNotePath(filePath) || isDashboardPath(filePath) || isAgentWorkPath(filePath) || intakePaused) return;
+
+    try {
+      await checkNoteForAgentCommands(filePath);
+    } catch {
+      // File might have been deleted
+    }
+  });
+
+  agentWatcher = watcher;
+}
+
+async function stopAgentTagWatcher(): Promise<void> {
+  if (agentScanTimer) clearInterval(agentScanTimer);
+  agentScanTimer = null;
+  await agentWatcher?.close();
+  agentWatcher = null;
+}
+
+// =============================================================================
+// Control Server
+// =============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isAuthorized(req: Request, token: string): boolean {
+  const header = req.headers.get("authorization") || "";
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function pauseIntake(): void {
+  intakePaused = true;
+  updateState({ status: "paused" });
+}
+
+function resumeIntake(): void {
+  intakePaused = false;
+  updateState({ status: state.active_tasks > 0 || runningAgentJobs.size > 0 ? "working" : "idle" });
+  processAgentQueue();
+  processTaskQueue();
+}
+
+async function handleControlRequest(req: Request, token: string): Promise<Response> {
+  if (!isAuthorized(req, token)) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const url = new URL(req.url);
+  const path = url.pathname.replace(/\/+$/, "") || "/";
+
+  if (req.method === "GET" && path === "/status") {
+    return jsonResponse({ ...state, intake_paused: intakePaused } satisfies StatusResponse);
+  }
+
+  if (req.method === "GET" && path === "/tasks") {
+    return jsonResponse({
+      queued: [...taskQueue].sort(compareTasks).map((t) => ({
+        name: t.name,
+        priority: t.meta.priority,
+        due: t.meta.due?.toISOString() ?? null,
+      })),
+      active: [...activeProcesses.keys()],
+      agent: {
+        queued: agentQueue.map(describeAgentJob),
+        active: [...runningAgentJobs.values()].map(describeAgentJob),
+      },
+    } satisfies TasksResponse);
+  }
+
+  if (req.method === "GET" && path === "/backups") {
+    const note = url.searchParams.get("note") ?? "";
+    if (!resolveVaultNote(note)) {
+      return jsonResponse({ error: "note must be a vault-relative .md path" }, 400);
+    }
+    return jsonResponse({ note, versions: await listBackups(note) });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+
+  if (path === "/backups/restore") {
+    const note = url.searchParams.get("note") ?? "";
+    const version = url.searchParams.get("version") ?? "";
+    try {
+      await restoreBackup(note, version);
+      return jsonResponse({ ok: true });
+    } catch (err) {
+      return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 400);
+    }
+  }
+
+  if (path === "/scan") {
+    scanForAgentTags(); // Don't await - scans can take a while
+    return jsonResponse({ ok: true });
+  }
+
+  if (path === "/pause") {
+    pauseIntake();
+    await log("INFO", "Intake paused via control API");
+    return jsonResponse({ ok: true, intake_paused: true });
+  }
+
+  if (path === "/resume") {
+    resumeIntake();
+    await log("INFO", "Intake resumed via control API");
+    return jsonResponse({ ok: true, intake_paused: false });
+  }
+
+  const cancelMatch = path.match(/^\/tasks\/(.+)\/cancel$/);
+  if (cancelMatch) {
+    const taskName = decodeURIComponent(cancelMatch[1]);
+    return requestTaskStop(taskName, "cancel", "Cancelled via the control API")
+      ? jsonResponse({ ok: true })
+      : jsonResponse({ error: `No running task named "${taskName}"` }, 404);
+  }
+
+  const agentCancelMatch = path.match(/^\/agent\/(.+)\/cancel$/);
+  if (agentCancelMatch) {
+    const id = decodeURIComponent(agentCancelMatch[1]);
+    return (await cancelAgentCommand(id))
+      ? jsonResponse({ ok: true })
+      : jsonResponse({ error: `No queued or running @agent command "${id}"` }, 404);
+  }
+
+  const runMatch = path.match(/^\/schedules\/(.+)\/run$/);
+  if (runMatch) {
+    const scheduleId = decodeURIComponent(runMatch[1]);
+    const schedule = schedules.find((s) => s.id === scheduleId);
+    if (!schedule) {
+      return jsonResponse({ error: `No schedule with id "${scheduleId}"` }, 404);
+    }
+    await executeScheduledTask(schedule);
+    return jsonResponse({ ok: true });
+  }
+
+  return jsonResponse({ error: "Not found" }, 404);
+}
+
+/**
+ * Start the loopback control API. The bearer token is regenerated on every
+ * start and written, with the URL, to CONTROL_PATH (mode 0600) for clients.
+ */
+async function startControlServer(): Promise<void> {
+  const token = randomBytes(24).toString("hex");
+
+  try {
+    controlServer = Bun.serve({
+      hostname: "127.0.0.1",
+      port: config.control.port,
+      fetch: (req) => handleControlRequest(req, token),
+    });
+
+    const url = `http://127.0.0.1:${controlServer.port}`;
+    await writeFile(CONTROL_PATH, JSON.stringify({ url, token, pid: process.pid }, null, 2), { mode: 0o600 });
+    await log("INFO", `Control API listening on ${url}`);
+  } catch (err) {
+    await log("ERROR", `Failed to start control API: ${err}`);
+  }
+}
+
+async function stopControlServer(): Promise<void> {
+  if (!controlServer) return;
+
+  controlServer.stop(true);
+  controlServer = null;
+
+  try {
+    await unlink(CONTROL_PATH);
+  } catch {
+    // Already removed
+  }
+}
+
+// =============================================================================
+// Config Loading
+// =============================================================================
+
+/** The expected shape of a config field. Defaults fill in required fields that are left out. */
+type ConfigField =
+  | { kind: "string"; values?: readonly string[]; default?: string }
+  | { kind: "number"; integer?: boolean; min?: number; max?: number; default?: number }
+  | { kind: "boolean"; default?: boolean }
+  | { kind: "strings"; values?: readonly string[]; default?: string[] }
+  /** Required sections are filled in from their fields' defaults when left out */
+  | { kind: "section"; fields: Record<string, ConfigField>; required?: boolean }
+  | { kind: "map"; of: ConfigField };
+
+const FAILURE_KINDS: FailureKind[] = ["timeout", "rate_limit", "spawn", "exit", "reported", "config", "dependency"];
+const EXECUTOR_TYPES: ExecutorType[] = ["claude", "command", "http", "fake"];
+
+const DURATION_MS: ConfigField = { kind: "number", integer: true, min: 0 };
+const COUNT: ConfigField = { kind: "number", integer: true, min: 1 };
+
+const CONFIG_SCHEMA: Record<string, ConfigField> = {
+  vault_path: { kind: "string", default: "auto" },
+  log_path: { kind: "string", default: "auto" },
+  log_max_size_mb: { kind: "number", min: 0.01, default: 1 },
+  log_max_files: { kind: "number", integer: true, min: 0 },
+  log_max_age_days: { kind: "number", min: 0.01 },
+  log_level: { kind: "string", values: ["debug", "info", "warn", "error"] },
+  state_path: { kind: "string", default: "auto" },
+  journal_path: { kind: "string" },
+  agent_index_path: { kind: "string" },
+  schedule_history_path: { kind: "string" },
+  tasks: {
+    kind: "section",
+    required: true,
+    fields: {
+      enabled: { kind: "boolean", default: true },
+      debounce_ms: { ...DURATION_MS, default: 5000 },
+      max_concurrent: { ...COUNT, default: 2 },
+      max_recoveries: { kind: "number", integer: true, min: 0 },
+      retry: {
+        kind: "section",
+        fields: {
+          max_attempts: COUNT,
+          backoff_ms: DURATION_MS,
+          max_backoff_ms: DURATION_MS,
+          retry_on: { kind: "strings", values: FAILURE_KINDS },
+        },
+      },
+      progress_interval_ms: { ...DURATION_MS, min: 100 },
+      log_dir: { kind: "string" },
+      follow_ups: {
+        kind: "section",
+        fields: {
+          enabled: { kind: "boolean" },
+          max_per_task: { kind: "number", integer: true, min: 0 },
+          max_depth: { kind: "number", integer: true, min: 0 },
+        },
+      },
+    },
+  },
+  agent_tags: {
+    kind: "section",
+    required: true,
+    fields: {
+      enabled: { kind: "boolean", default: true },
+      scan_interval_ms: { ...DURATION_MS, min: 1000, default: 180_000 },
+      debounce_ms: { ...DURATION_MS, default: 30_000 },
+      ignore_patterns: { kind: "strings", default: ["Tasks/**", ".obsidian/**", "**/node_modules/**", "**/.git/**"] },
+      max_concurrent: COUNT,
+      timeout_ms: { ...DURATION_MS, min: 1000 },
+      agents: {
+        kind: "map",
+        of: {
+          kind: "section",
+          fields: {
+            prompt: { kind: "string" },
+            template: { kind: "string" },
+            scope: { kind: "string", values: ["note", "section", "selection"] },
+            context: { kind: "boolean" },
+          },
+        },
+      },
+    },
+  },
+  claude: {
+    kind: "section",
+    required: true,
+    fields: {
+      command: { kind: "string", default: "auto" },
+      args: { kind: "strings", default: ["--dangerously-skip-permissions"] },
+      timeout_ms: { ...DURATION_MS, min: 1000, default: 300_000 },
+      output_format: { kind: "string", values: ["stream-json", "text"] },
+      overrides: {
+        kind: "section",
+        fields: {
+          models: { kind: "strings" },
+          tools: { kind: "strings" },
+          args: { kind: "strings" },
+          max_timeout_ms: { ...DURATION_MS, min: 1000 },
+        },
+      },
+    },
+  },
+  executor: {
+    kind: "section",
+    fields: {
+      type: { kind: "string", values: EXECUTOR_TYPES, default: "claude" },
+      command: { kind: "string" },
+      args: { kind: "strings" },
+      url: { kind: "string" },
+      model: { kind: "string" },
+      api_key_env: { kind: "string" },
+      fixtures: { kind: "string" },
+    },
+  },
+  control: {
+    kind: "section",
+    fields: {
+      enabled: { kind: "boolean" },
+      port: { kind: "number", integer: true, min: 0, max: 65535 },
+    },
+  },
+  backups: {
+    kind: "section",
+    fields: {
+      path: { kind: "string" },
+      max_versions: COUNT,
+    },
+  },
+  prompts: {
+    kind: "section",
+    fields: {
+      dir: { kind: "string" },
+    },
+  },
+  context: {
+    kind: "section",
+    fields: {
+      enabled: { kind: "boolean" },
+      max_tokens: { kind: "number", integer: true, min: 0 },
+      links: { kind: "boolean" },
+      backlinks: { kind: "boolean" },
+      tags: { kind: "boolean" },
+    },
+  },
+  schedules: {
+    kind: "section",
+    fields: {
+      dir: { kind: "string" },
+      history_limit: COUNT,
+      history_notes: { kind: "boolean" },
+    },
+  },
+  metrics: {
+    kind: "section",
+    fields: {
+      path: { kind: "string" },
+      retention_days: COUNT,
+      dashboard: { kind: "boolean" },
+      dashboard_path: { kind: "string" },
+      recent_runs: COUNT,
+      prometheus_port: { kind: "number", integer: true, min: 1, max: 65535 },
+    },
+  },
+};
+
+/**
+ * Fields that take effect without a restart, as config paths; a change inside
+ * one (e.g. a single named agent) counts. Everything else is logged as needing
+ * a restart.
+ */
+const LIVE_CONFIG_FIELDS = [
+  "log_max_size_mb",
+  "log_max_files",
+  "log_max_age_days",
+  "log_level",
+  "tasks.debounce_ms",
+  "tasks.max_concurrent",
+  "tasks.retry",
+  "tasks.progress_interval_ms",
+  "tasks.follow_ups",
+  "agent_tags.scan_interval_ms",
+  "agent_tags.debounce_ms",
+  "agent_tags.ignore_patterns",
+  "agent_tags.max_concurrent",
+  "agent_tags.timeout_ms",
+  "agent_tags.agents",
+  "claude.timeout_ms",
+  "claude.overrides",
+  "backups.max_versions",
+  "context",
+  "schedules.history_limit",
+  "metrics.retention_days",
+  "metrics.dashboard",
+  "metrics.recent_runs",
+];
+
+/** Everything wrong with the config, one problem per line. */
+class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.length === 1 ? problems[0] : `${problems.length} problems:\n  ${problems.join("\n  ")}`);
+  }
+}
+
+interface LoadedConfig {
+  config: ResolvedConfig;
+  /** Problems that don't stop the daemon, such as unknown fields */
+  warnings: string[];
+  /** config.json, config.local.json and override variables, in the order applied */
+  sources: string[];
+}
+
+function isConfigObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeConfigValue(value: unknown): string {
+  if (Array.isArray(value)) return "a list";
+  if (isConfigObject(value)) return "an object";
+  return JSON.stringify(value);
+}
+
+/** A field name within two edits of `name`, for "did you mean" hints. */
+function closestFieldName(name: string, candidates: string[]): string | null {
+  const distance = (a: string, b: string): number => {
+    let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const next = [i];
+      for (let j = 1; j <= b.length; j++) {
+        next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+      row = next;
+    }
+    return row[b.length];
+  };
+
+  let best: string | null = null;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const d = distance(name, candidate);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** Check a value against its field, returning it with defaults filled in. */
+function checkConfigField(value: unknown, field: ConfigField, path: string, problems: string[], warnings: string[]): unknown {
+  if (value === undefined) {
+    if (field.kind === "section") return field.required ? checkConfigField({}, field, path, problems, warnings) : undefined;
+    return "default" in field ? structuredClone(field.default) : undefined;
+  }
+
+  switch (field.kind) {
+    case "string":
+      if (typeof value !== "string") {
+        problems.push(`${path}: expected a string, got ${describeConfigValue(value)}`);
+      } else if (field.values && !field.values.includes(value)) {
+        problems.push(`${path}: expected one of ${field.values.map((v) => `"${v}"`).join(", ")}, got "${value}"`);
+      }
+      return value;
+
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        problems.push(`${path}: expected a number, got ${describeConfigValue(value)}`);
+      } else if (field.integer && !Number.isInteger(value)) {
+        problems.push(`${path}: expected a whole number, got ${value}`);
+      } else if (field.min !== undefined && value < field.min) {
+        problems.push(`${path}: must be at least ${field.min}, got ${value}`);
+      } else if (field.max !== undefined && value > field.max) {
+        problems.push(`${path}: must be at most ${field.max}, got ${value}`);
+      }
+      return value;
+
+    case "boolean":
+      if (typeof value !== "boolean") problems.push(`${path}: expected true or false, got ${describeConfigValue(value)}`);
+      return value;
+
+    case "strings":
+      if (!Array.isArray(value)) {
+        problems.push(`${path}: expected a list of strings, got ${describeConfigValue(value)}`);
+        return value;
+      }
+      value.forEach((item, i) => checkConfigField(item, { kind: "string", values: field.values }, `${path}[${i}]`, problems, warnings));
+      return value;
+
+    case "section":
+      if (!isConfigObject(value)) {
+        problems.push(`${path}: expected an object, got ${describeConfigValue(value)}`);
+        return value;
+      }
+      return checkConfigFields(value, field.fields, `${path}.`, problems, warnings);
+
+    case "map": {
+      if (!isConfigObject(value)) {
+        problems.push(`${path}: expected an object, got ${describeConfigValue(value)}`);
+        return value;
+      }
+      const checked: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        checked[key] = checkConfigField(item, field.of, `${path}.${key}`, problems, warnings);
+      }
+      return checked;
+    }
+  }
+}
+
+function checkConfigFields(
+  value: Record<string, unknown>,
+  fields: Record<string, ConfigField>,
+  prefix: string,
+  problems: string[],
+  warnings: string[],
+): Record<string, unknown> {
+  // Unknown fields are ignored as before, but flagged since they're usually typos
+  for (const key of Object.keys(value)) {
+    if (key in fields) continue;
+    const suggestion = closestFieldName(key, Object.keys(fields));
+    warnings.push(`${prefix}${key}: unknown field, ignored${suggestion ? ` (did you mean ${prefix}${suggestion}?)` : ""}`);
+  }
+
+  const checked: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(fields)) {
+    const item = checkConfigField(value[key], field, `${prefix}${key}`, problems, warnings);
+    if (item !== undefined) checked[key] = item;
+  }
+  return checked;
+}
+
+/** Validate a parsed config against CONFIG_SCHEMA, reporting every problem at once. */
+function validateConfig(raw: unknown): { config: Config; problems: string[]; warnings: string[] } {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isConfigObject(raw)) {
+    return { config: raw as Config, problems: [`Expected a JSON object, got ${describeConfigValue(raw)}`], warnings };
+  }
+  const config = checkConfigFields(raw, CONFIG_SCHEMA, "", problems, warnings) as unknown as Config;
+
+  // Fields only some executors need
+  const exec = config.executor;
+  if (exec?.type === "command" && !exec.command) problems.push("executor.command: required for the command executor");
+  if (exec?.type === "http") {
+    if (!exec.url) problems.push("executor.url: required for the http executor");
+    else if (!URL.canParse(exec.url)) problems.push(`executor.url: not a valid URL: "${exec.url}"`);
+    if (!exec.model) problems.push("executor.model: required for the http executor");
+  }
+  if (exec?.type === "fake" && !exec.fixtures) problems.push("executor.fixtures: required for the fake executor");
+
+  return { config, problems, warnings };
+}
+
+async function readConfigFile(path: string, problems: string[]): Promise<Record<string, unknown>> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch {
+    problems.push(`${basename(path)}: not found at ${path}`);
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(content);
+    if (isConfigObject(parsed)) return parsed;
+    problems.push(`${basename(path)}: expected a JSON object, got ${describeConfigValue(parsed)}`);
+  } catch (err) {
+    problems.push(`${basename(path)}: invalid JSON (${err instanceof Error ? err.message : err})`);
+  }
+  return {};
+}
+
+/** Merge an override layer into a config: objects merge field by field, anything else replaces. */
+function mergeConfigLayer(base: Record<string, unknown>, layer: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    const current = merged[key];
+    merged[key] = isConfigObject(value) && isConfigObject(current) ? mergeConfigLayer(current, value) : value;
+  }
+  return merged;
+}
+
+function getConfigPath(target: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((value, key) => (isConfigObject(value) ? value[key] : undefined), target);
+}
+
+function setConfigPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let parent = target;
+  for (const key of path.slice(0, -1)) {
+    if (!isConfigObject(parent[key])) parent[key] = {};
+    parent = parent[key] as Record<string, unknown>;
+  }
+  const last = path[path.length - 1];
+  if (value === undefined) delete parent[last];
+  else parent[last] = value;
+}
+
+/** Every non-section field with the environment variable that overrides it. */
+function configEnvFields(fields = CONFIG_SCHEMA, path: string[] = []): { name: string; path: string[]; field: ConfigField }[] {
+  return Object.entries(fields).flatMap(([key, field]) => field.kind === "section"
+    ? configEnvFields(field.fields, [...path, key])
+    : [{ name: CONFIG_ENV_PREFIX + [...path, key].join("__").toUpperCase(), path: [...path, key], field }]);
+}
+
+/**
+ * The VAULT_DAEMON_* overrides in the environment, as a config layer. Other
+ * variables with the prefix (the command executor sets VAULT_DAEMON_ID for its
+ * children) are left alone.
+ */
+function readConfigEnv(problems: string[], sources: string[]): Record<string, unknown> {
+  const layer: Record<string, unknown> = {};
+
+  for (const { name, path, field } of configEnvFields()) {
+    const raw = process.env[name];
+    if (raw === undefined) continue;
+
+    // Values that don't parse are passed through, so validation names the field
+    let value: unknown = raw;
+    if (field.kind === "number" && raw.trim() !== "" && !Number.isNaN(Number(raw))) {
+      value = Number(raw);
+    } else if (field.kind === "boolean" && /^(true|false|1|0)$/i.test(raw)) {
+      value = /^(true|1)$/i.test(raw);
+    } else if (field.kind === "strings" && !raw.trimStart().startsWith("[")) {
+      value = raw.split(",").map((item) => item.trim()).filter(Boolean);
+    } else if (field.kind === "strings" || field.kind === "map") {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        problems.push(`${name}: invalid JSON`);
+        continue;
+      }
+    }
+
+    setConfigPath(layer, path, value);
+    sources.push(name);
+  }
+  return layer;
+}
+
+/**
+ * Load config.json, layer config.local.json and VAULT_DAEMON_* variables on
+ * top, validate the result and resolve it. Throws a ConfigError listing every
+ * problem found.
+ */
+async function loadConfig(): Promise<LoadedConfig> {
+  const problems: string[] = [];
+  const sources = [basename(CONFIG_PATH)];
+
+  let raw = await readConfigFile(CONFIG_PATH, problems);
+  if (existsSync(CONFIG_LOCAL_PATH)) {
+    raw = mergeConfigLayer(raw, await readConfigFile(CONFIG_LOCAL_PATH, problems));
+    sources.push(basename(CONFIG_LOCAL_PATH));
+  }
+  raw = mergeConfigLayer(raw, readConfigEnv(problems, sources));
+  if (problems.length > 0) throw new ConfigError(problems);
+
+  const validated = validateConfig(raw);
+  if (validated.problems.length > 0) throw new ConfigError(validated.problems);
+
+  return { config: await resolveConfig(validated.config), warnings: validated.warnings, sources };
+}
+
+/** Config paths whose values differ, down to the first non-object value. */
+function diffConfig(before: unknown, after: unknown, path = ""): string[] {
+  if (isConfigObject(before) && isConfigObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => diffConfig(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [path];
+}
+
+function isLiveConfigField(path: string): boolean {
+  return LIVE_CONFIG_FIELDS.some((field) => path === field || path.startsWith(`${field}.`));
+}
+
+/**
+ * Reload the config after an edit. Live fields are applied at once; other
+ * changes are logged and wait for a restart, so the running config stays
+ * consistent with the watchers and executor built from it.
+ */
+async function reloadConfig(): Promise<void> {
+  let loaded: LoadedConfig;
+  try {
+    loaded = await loadConfig();
+  } catch (err) {
+    await log("ERROR", `Config not reloaded, keeping the current settings: ${err instanceof Error ? err.message : err}`);
+    return;
+  }
+  for (const warning of loaded.warnings) await log("WARN", `Config: ${warning}`);
+
+  const changed = diffConfig(config, loaded.config);
+  const live = changed.filter(isLiveConfigField);
+  const restart = changed.filter((path) => !isLiveConfigField(path));
+  if (changed.length === 0) {
+    await log("INFO", "Config reloaded, nothing changed");
+    return;
+  }
+
+  const previous = config;
+  const next = structuredClone(config) as unknown as Record<string, unknown>;
+  for (const path of live) setConfigPath(next, path.split("."), getConfigPath(loaded.config, path.split(".")));
+  config = next as unknown as ResolvedConfig;
 
-  log("INFO", "Task watcher started");
+  if (live.length > 0) {
+    await log("INFO", `Config reloaded: ${live.join(", ")}`);
+    await applyLiveConfig(previous);
+  }
+  if (restart.length > 0) {
+    await log("WARN", `Config changes need a restart to take effect: ${restart.join(", ")}`);
+  }
 }
 
-function setupAgentTagWatcher(): void {
-  // Initial scan
-  scanForAgentTags();
+/** Rebuild what was set up from the old values; everything else reads config when it runs. */
+async function applyLiveConfig(previous: ResolvedConfig): Promise<void> {
+  if (config.tasks.enabled && config.tasks.debounce_ms !== previous.tasks.debounce_ms) {
+    await Promise.all(taskWatchers.map((watcher) => watcher.close()));
+    setupTaskWatcher();
+  }
 
-  // Periodic scan
-  setInterval(() => {
-    scanForAgentTags();
-  }, config.agent_tags.scan_interval_ms);
+  if (config.agent_tags.enabled && (config.agent_tags.debounce_ms !== previous.agent_tags.debounce_ms
+    || config.agent_tags.scan_interval_ms !== previous.agent_tags.scan_interval_ms)) {
+    await stopAgentTagWatcher();
+    startAgentTagWatcher();
+  }
 
-  // Also watch for file changes with debounce
-  const watcher = watch(config.vault_path, {
-    ignored: [
-      /node_modules/,
-      /\.git/,
-      /\.obsidian/,
-      /Tasks\//,
-      /_agent\/daemon/,
-    ],
+  // Notes the old patterns left out aren't in the link cache; walk the vault again
+  if (diffConfig(previous.agent_tags.ignore_patterns, config.agent_tags.ignore_patterns).length > 0) {
+    staleLinkPaths = null;
+  }
+
+  // More slots may let queued work start now
+  processTaskQueue();
+  processAgentQueue();
+}
+
+function setupConfigWatcher(): void {
+  const watcher = watch([CONFIG_PATH, CONFIG_LOCAL_PATH], {
     ignoreInitial: true,
     awaitWriteFinish: {
-      stabilityThreshold: config.agent_tags.debounce_ms,
-      pollInterval: 1000,
+      stabilityThreshold: 500,
+      pollInterval: 100,
     },
   });
 
-  watcher.on("change", async (filePath) => {
-    if (!filePath.endsWith(".md")) return;
-
-    try {
-      const content = await readFile(filePath, "utf-8");
-      const commands = extractAgentCommands(content);
-
-      for (const cmd of commands) {
-        await processAgentTag(filePath, cmd.instruction, cmd.fullMatch, cmd.lineNumber);
-      }
-    } catch {
-      // File might have been deleted
-    }
+  watcher.on("all", async (event, filePath) => {
+    if (event !== "add" && event !== "change" && event !== "unlink") return;
+    await log("INFO", `${basename(filePath)} ${event === "unlink" ? "removed" : "changed"}, reloading config...`);
+    await reloadConfig();
   });
-
-  log("INFO", "@agent tag watcher started");
 }
 
 // =============================================================================
@@ -790,11 +5506,30 @@ async function resolveConfig(rawConfig: Config): Promise<ResolvedConfig> {
     ? join(homedir(), ".vault-daemon-state.json")
     : rawConfig.state_path;
 
-  // Claude command
+  // Journal path: next to the state file by default
+  const journalPath = !rawConfig.journal_path || rawConfig.journal_path === "auto"
+    ? join(homedir(), ".vault-daemon-journal.jsonl")
+    : rawConfig.journal_path;
+
+  const agentIndexPath = !rawConfig.agent_index_path || rawConfig.agent_index_path === "auto"
+    ? join(homedir(), ".vault-daemon-agent-index.json")
+    : rawConfig.agent_index_path;
+
+  const scheduleHistoryPath = !rawConfig.schedule_history_path || rawConfig.schedule_history_path === "auto"
+    ? join(homedir(), ".vault-daemon-schedule-history.json")
+    : rawConfig.schedule_history_path;
+
+  const executor: ExecutorConfig = { ...rawConfig.executor, type: rawConfig.executor?.type ?? "claude" };
+  if (executor.type === "fake" && executor.fixtures) {
+    // Relative to the daemon, like config.json
+    executor.fixtures = resolve(import.meta.dir, executor.fixtures);
+  }
+
+  // Claude command; only looked up when Claude runs the prompts
   let claudeCommand = rawConfig.claude.command;
   let claudeArgs = [...rawConfig.claude.args];
 
-  if (claudeCommand === "auto") {
+  if (claudeCommand === "auto" && executor.type === "claude") {
     claudeCommand = await findClaude();
     // If using npx, prepend the package name
     if (claudeCommand === "npx") {
@@ -806,41 +5541,791 @@ async function resolveConfig(rawConfig: Config): Promise<ResolvedConfig> {
     ...rawConfig,
     vault_path: vaultPath,
     log_path: logPath,
+    log_max_files: rawConfig.log_max_files ?? 5,
+    log_max_age_days: rawConfig.log_max_age_days ?? 1,
+    log_level: rawConfig.log_level ?? "info",
     state_path: statePath,
+    journal_path: journalPath,
+    agent_index_path: agentIndexPath,
+    schedule_history_path: scheduleHistoryPath,
+    tasks: {
+      ...rawConfig.tasks,
+      max_recoveries: rawConfig.tasks.max_recoveries ?? 2,
+      retry: {
+        max_attempts: rawConfig.tasks.retry?.max_attempts ?? 3,
+        backoff_ms: rawConfig.tasks.retry?.backoff_ms ?? 60_000,
+        max_backoff_ms: rawConfig.tasks.retry?.max_backoff_ms ?? 1_800_000,
+        retry_on: rawConfig.tasks.retry?.retry_on ?? ["timeout", "rate_limit", "spawn"],
+      },
+      progress_interval_ms: rawConfig.tasks.progress_interval_ms ?? 5000,
+      log_dir: !rawConfig.tasks.log_dir || rawConfig.tasks.log_dir === "auto"
+        ? join(dirname(logPath), "vault-daemon-tasks")
+        : rawConfig.tasks.log_dir,
+      follow_ups: {
+        enabled: rawConfig.tasks.follow_ups?.enabled ?? true,
+        max_per_task: rawConfig.tasks.follow_ups?.max_per_task ?? 5,
+        max_depth: rawConfig.tasks.follow_ups?.max_depth ?? 3,
+      },
+    },
+    agent_tags: {
+      ...rawConfig.agent_tags,
+      max_concurrent: rawConfig.agent_tags.max_concurrent ?? 1,
+      timeout_ms: rawConfig.agent_tags.timeout_ms ?? rawConfig.claude.timeout_ms,
+      agents: rawConfig.agent_tags.agents ?? {},
+    },
     claude: {
       command: claudeCommand,
       args: claudeArgs,
       timeout_ms: rawConfig.claude.timeout_ms,
+      output_format: rawConfig.claude.output_format ?? "stream-json",
+      overrides: {
+        models: rawConfig.claude.overrides?.models ?? ["haiku", "sonnet", "opus"],
+        tools: rawConfig.claude.overrides?.tools ?? ["Read", "Write", "Edit", "Glob", "Grep", "Bash", "WebSearch", "WebFetch"],
+        args: rawConfig.claude.overrides?.args ?? [],
+        max_timeout_ms: rawConfig.claude.overrides?.max_timeout_ms ?? 1_800_000,
+      },
+    },
+    executor,
+    control: {
+      enabled: rawConfig.control?.enabled ?? true,
+      port: rawConfig.control?.port ?? 0,
     },
+    backups: {
+      path: !rawConfig.backups?.path || rawConfig.backups.path === "auto"
+        ? join(homedir(), ".vault-daemon-backups")
+        : rawConfig.backups.path,
+      max_versions: rawConfig.backups?.max_versions ?? 20,
+    },
+    prompts: {
+      // Relative paths are inside the vault
+      dir: resolve(vaultPath, rawConfig.prompts?.dir ?? "_agent/prompts"),
+    },
+    context: {
+      enabled: rawConfig.context?.enabled ?? false,
+      max_tokens: rawConfig.context?.max_tokens ?? 8000,
+      links: rawConfig.context?.links ?? true,
+      backlinks: rawConfig.context?.backlinks ?? true,
+      tags: rawConfig.context?.tags ?? false,
+    },
+    schedules: {
+      dir: resolve(vaultPath, rawConfig.schedules?.dir ?? "Tasks/Schedules"),
+      history_limit: rawConfig.schedules?.history_limit ?? 50,
+      history_notes: rawConfig.schedules?.history_notes ?? true,
+    },
+    metrics: {
+      path: !rawConfig.metrics?.path || rawConfig.metrics.path === "auto"
+        ? join(homedir(), ".vault-daemon-metrics.json")
+        : rawConfig.metrics.path,
+      retention_days: rawConfig.metrics?.retention_days ?? 90,
+      dashboard: rawConfig.metrics?.dashboard ?? true,
+      dashboard_path: resolve(vaultPath, rawConfig.metrics?.dashboard_path ?? "_agent/Dashboard.md"),
+      recent_runs: rawConfig.metrics?.recent_runs ?? 20,
+      prometheus_port: rawConfig.metrics?.prometheus_port ?? null,
+    },
+  };
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+const CLI_USAGE = `Usage: bun run daemon.ts [command]
+
+Without a command, runs the daemon.
+
+Commands:
+  status [--json]                     Daemon state, queue and next scheduled run
+  tasks list [--json]                 Tasks in each folder
+  tasks show <name>                   A task note and its journal history
+  tasks retry <name>                  Move a Blocked, Paused or Cancelled task back to Inbox
+  tasks cancel <name>                 Cancel a queued or running task
+  schedule list [--json]              Schedules with their next run and last outcome
+  schedule add --name <name> (--cron <expr> | --run-at <date>) [--timezone <tz>]
+               [--catch-up skip|once|all] [--overlap skip|queue] [--prompt <text>]
+                                      Add a schedule; the prompt is read from stdin if not given
+  schedule enable|disable <id>        Turn a schedule on or off
+  schedule run-now <id>               Create the schedule's task now
+  scan                                Scan the vault for @agent commands now
+  logs [--follow] [--lines <n>] [--task <name>] [--level <level>] [--json]
+                                      Print the end of the daemon log
+  config check                        Validate config.json and print the resolved settings
+  install-service [--no-start]        Run the daemon at login: systemd user unit or LaunchAgent
+`;
+
+/** A CLI problem to print without a stack trace. */
+class CliError extends Error {}
+
+const CLI_SWITCHES = new Set(["json", "follow", "no-start"]);
+
+function parseCliArgs(args: string[]): { positional: string[]; flags: Record<string, string | true> } {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i].match(/^--([\w-]+)(?:=(.*))?$/);
+    if (!flag) {
+      positional.push(args[i]);
+    } else if (flag[2] !== undefined) {
+      flags[flag[1]] = flag[2];
+    } else if (CLI_SWITCHES.has(flag[1]) || i + 1 >= args.length) {
+      flags[flag[1]] = true;
+    } else {
+      flags[flag[1]] = args[++i];
+    }
+  }
+  return { positional, flags };
+}
+
+function stringFlag(flags: Record<string, string | true>, name: string): string | undefined {
+  const value = flags[name];
+  if (value === true) throw new CliError(`--${name} needs a value`);
+  return value;
+}
+
+/** The running daemon's control API, or null if it isn't running. */
+async function daemonControl(): Promise<{ url: string; token: string } | null> {
+  if (!existsSync(CONTROL_PATH)) return null;
+  try {
+    const { url, token, pid } = JSON.parse(await readFile(CONTROL_PATH, "utf-8"));
+    process.kill(pid, 0);
+    return { url, token };
+  } catch {
+    return null;
+  }
+}
+
+/** Call the running daemon's control API. T is the response body's shape. */
+async function controlRequest<T = unknown>(method: "GET" | "POST", path: string): Promise<T> {
+  const control = await daemonControl();
+  if (!control) throw new CliError("The daemon isn't running (or its control API is disabled)");
+
+  let response: Response;
+  try {
+    response = await fetch(control.url + path, { method, headers: { Authorization: `Bearer ${control.token}` } });
+  } catch (err) {
+    throw new CliError(`Can't reach the daemon at ${control.url}: ${err}`);
+  }
+
+  const body: unknown = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new CliError(isConfigObject(body) && typeof body.error === "string" ? body.error : `Control API returned ${response.status}`);
+  }
+  return body as T;
+}
+
+async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function printTable(rows: string[][]): void {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+  }
+}
+
+/** Find a task by file name (with or without .md) in the task folders. */
+function requireTaskNote(name: string | undefined): string {
+  if (!name) throw new CliError("Give a task name");
+  const filePath = findTaskNote(name.endsWith(".md") ? name : `${name}.md`);
+  if (!filePath) throw new CliError(`No task named "${name}" in ${join(config.vault_path, "Tasks")}`);
+  return filePath;
+}
+
+async function cliStatus(json: boolean): Promise<void> {
+  const saved = await readJsonFile<DaemonState | null>(config.state_path, null);
+  const control = await daemonControl();
+  const live = control ? await controlRequest<StatusResponse>("GET", "/status") : null;
+  const queue = control ? await controlRequest<TasksResponse>("GET", "/tasks") : null;
+
+  if (json) {
+    console.log(JSON.stringify({ running: Boolean(control), state: live ?? saved, queue }, null, 2));
+    return;
+  }
+
+  const current: (DaemonState & { intake_paused?: boolean }) | null = live ?? saved;
+  console.log(`Daemon:      ${control ? `running (${control.url})` : "not running"}`);
+  if (!current) {
+    console.log(`No state file at ${config.state_path}`);
+    return;
+  }
+
+  console.log(`Status:      ${current.status}${current.active_tasks ? ` (${current.active_tasks} active)` : ""}${current.intake_paused ? ", intake paused" : ""}`);
+  if (queue) {
+    console.log(`Queue:       ${queue.queued.length} tasks, ${queue.agent.queued.length} @agent commands`);
+  }
+  console.log(`Today:       ${current.tasks_completed_today} tasks, ${current.agent_commands_today} @agent commands`);
+  if (current.scheduled_next) {
+    console.log(`Next run:    ${current.scheduled_next.name} at ${new Date(current.scheduled_next.time).toLocaleString()}`);
+  }
+  if (current.last_scan) console.log(`Last scan:   ${new Date(current.last_scan).toLocaleString()}`);
+  if (current.last_error) console.log(`Last error:  ${current.last_error.split("\n")[0].slice(0, 200)}`);
+}
+
+async function cliTasks(action: string | undefined, positional: string[], flags: Record<string, string | true>): Promise<void> {
+  switch (action) {
+    case "list": {
+      const tasksDir = join(config.vault_path, "Tasks");
+      const listing: Record<string, string[]> = {};
+      for (const folder of TASK_FOLDERS) {
+        const dir = join(tasksDir, folder);
+        listing[folder] = existsSync(dir) ? (await readdir(dir)).filter((f) => f.endsWith(".md")).sort() : [];
+      }
+
+      if (flags.json) {
+        console.log(JSON.stringify(listing, null, 2));
+        return;
+      }
+      for (const [folder, files] of Object.entries(listing)) {
+        console.log(`${folder} (${files.length})`);
+        // Completed grows forever; the newest names sort last for timestamped tasks
+        const shown = folder === "Completed" ? files.slice(-10) : files;
+        if (shown.length < files.length) console.log(`  … ${files.length - shown.length} more`);
+        for (const file of shown) console.log(`  ${file}`);
+      }
+      return;
+    }
+
+    case "show": {
+      const filePath = requireTaskNote(positional[0]);
+      const name = basename(filePath);
+      const journal = existsSync(config.journal_path) ? await readFile(config.journal_path, "utf-8") : "";
+      const events = journal.split("\n").filter(Boolean).flatMap((line) => {
+        try {
+          const event = JSON.parse(line) as JournalEvent;
+          return event.task === name ? [event] : [];
+        } catch {
+          return [];
+        }
+      });
+
+      console.log(relative(config.vault_path, filePath));
+      const transcript = taskTranscriptPath(name);
+      if (existsSync(transcript)) console.log(`Transcript: ${transcript}`);
+      for (const event of events) {
+        const detail = event.error ? ` - ${event.error.split("\n")[0].slice(0, 120)}` : "";
+        console.log(`  ${new Date(event.ts).toLocaleString()}  ${event.event}${event.attempt ? ` (attempt ${event.attempt})` : ""}${detail}`);
+      }
+      console.log("");
+      console.log(await readFile(filePath, "utf-8"));
+      return;
+    }
+
+    case "retry": {
+      const filePath = requireTaskNote(positional[0]);
+      const folder = basename(dirname(filePath));
+      if (!["Blocked", "Paused", "Cancelled"].includes(folder)) {
+        throw new CliError(`${basename(filePath)} is in ${folder}; only Blocked, Paused and Cancelled tasks can be retried`);
+      }
+      await moveTask(filePath, "Inbox");
+      console.log(`Moved ${basename(filePath)} from ${folder} to Inbox`);
+      return;
+    }
+
+    case "cancel": {
+      const filePath = requireTaskNote(positional[0]);
+      const name = basename(filePath);
+      const folder = basename(dirname(filePath));
+
+      if (folder === "In Progress") {
+        await controlRequest("POST", `/tasks/${encodeURIComponent(name)}/cancel`);
+        console.log(`Cancelling ${name}`);
+      } else if (folder !== "Inbox") {
+        throw new CliError(`${name} is in ${folder}, not queued or running`);
+      } else if (await daemonControl()) {
+        // The daemon's Inbox watcher files it, keeping its queue in step
+        const content = await readFile(filePath, "utf-8");
+        await writeFile(filePath, updateFrontmatter(content, { status: "cancel" }));
+        console.log(`Cancelling ${name}`);
+      } else {
+        const content = await readFile(filePath, "utf-8");
+        const task: TaskInfo = { path: filePath, name, content, meta: parseTaskMeta(parseFrontmatter(content).data), queuedAt: Date.now() };
+        await loadMetrics();
+        await settleStoppedTask(task, { action: "cancel", reason: "Cancelled from the command line" });
+        await saveMetrics();
+        console.log(`Moved ${name} to Cancelled`);
+      }
+      return;
+    }
+
+    default:
+      throw new CliError("Usage: tasks list|show|retry|cancel");
+  }
+}
+
+async function cliSchedule(action: string | undefined, positional: string[], flags: Record<string, string | true>): Promise<void> {
+  await loadSchedules();
+
+  const requireSchedule = (id: string | undefined): Schedule => {
+    const schedule = schedules.find((s) => s.id === id || s.name === id);
+    if (!schedule) throw new CliError(id ? `No schedule "${id}"` : "Give a schedule id");
+    return schedule;
   };
+
+  switch (action) {
+    case "list": {
+      const history = await readJsonFile<{ runs?: Record<string, ScheduleRun[]> }>(config.schedule_history_path, {});
+      const rows = schedules.map((schedule) => {
+        const last = history.runs?.[schedule.id]?.at(-1);
+        return {
+          id: schedule.id,
+          name: schedule.name,
+          when: `${schedule.cron ?? `at ${schedule.run_at}`}${schedule.timezone ? ` (${schedule.timezone})` : ""}`,
+          enabled: schedule.enabled,
+          next_run: nextScheduleRun(schedule)?.toISOString() ?? null,
+          last_outcome: last?.outcome ?? null,
+          problem: validateSchedule(schedule),
+          source: schedule.note ?? SCHEDULES_PATH,
+        };
+      });
+
+      if (flags.json) {
+        console.log(JSON.stringify(rows, null, 2));
+        return;
+      }
+      if (rows.length === 0) {
+        console.log("No schedules");
+        return;
+      }
+      printTable([
+        ["ID", "NAME", "WHEN", "ENABLED", "NEXT RUN", "LAST"],
+        ...rows.map((row) => [
+          row.id,
+          row.name,
+          row.when,
+          row.problem ? "invalid" : row.enabled ? "yes" : "no",
+          row.next_run ? new Date(row.next_run).toLocaleString() : "-",
+          row.last_outcome ?? "-",
+        ]),
+      ]);
+      for (const row of rows.filter((r) => r.problem)) console.log(`\n${row.name}: ${row.problem}`);
+      return;
+    }
+
+    case "add": {
+      const name = stringFlag(flags, "name");
+      if (!name) throw new CliError("--name is required");
+
+      let prompt = stringFlag(flags, "prompt");
+      if (prompt === undefined) {
+        if (process.stdin.isTTY) throw new CliError("Give --prompt or pipe the prompt on stdin");
+        prompt = (await Bun.stdin.text()).trim();
+      }
+
+      const schedule: Schedule = {
+        id: crypto.randomUUID(),
+        name,
+        prompt,
+        cron: stringFlag(flags, "cron"),
+        run_at: stringFlag(flags, "run-at"),
+        timezone: stringFlag(flags, "timezone"),
+        catch_up: stringFlag(flags, "catch-up") as CatchUpPolicy | undefined,
+        overlap: stringFlag(flags, "overlap") as OverlapPolicy | undefined,
+        enabled: true,
+        createdAt: new Date().toISOString(),
+      };
+      const problem = validateSchedule(schedule);
+      if (problem) throw new CliError(problem);
+
+      schedules.push(schedule);
+      await saveSchedules();
+      const next = nextScheduleRun(schedule);
+      console.log(`Added schedule ${schedule.id}${next ? `, next run ${next.toLocaleString()}` : ""}`);
+      return;
+    }
+
+    case "enable":
+    case "disable": {
+      const schedule = requireSchedule(positional[0]);
+      const enabled = action === "enable";
+
+      if (schedule.note) {
+        const filePath = join(config.vault_path, schedule.note);
+        await writeFile(filePath, updateFrontmatter(await readFile(filePath, "utf-8"), { enabled }));
+      } else {
+        schedule.enabled = enabled;
+        await saveSchedules();
+      }
+      console.log(`${enabled ? "Enabled" : "Disabled"} ${schedule.name}`);
+      return;
+    }
+
+    case "run-now": {
+      const schedule = requireSchedule(positional[0]);
+      await controlRequest("POST", `/schedules/${encodeURIComponent(schedule.id)}/run`);
+      console.log(`Created a task for ${schedule.name}`);
+      return;
+    }
+
+    default:
+      throw new CliError("Usage: schedule list|add|enable|disable|run-now");
+  }
+}
+
+interface LogFilter {
+  json: boolean;
+  task?: string;
+  level?: LogLevel;
+}
+
+/** A JSON log line as `time LEVEL message key=value`, or null if the filter drops it. */
+function formatLogLine(line: string, filter: LogFilter): string | null {
+  let entry: { ts: string; level: LogLevel; msg: string } & LogFields;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    // Lines from before JSON logging
+    return filter.task || filter.level ? null : line;
+  }
+
+  if (filter.task && entry.task !== filter.task && entry.task !== `${filter.task}.md`) return null;
+  if (filter.level && LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(filter.level)) return null;
+  if (filter.json) return line;
+
+  const { ts, level, msg, ...fields } = entry;
+  const extra = Object.entries(fields)
+    .map(([key, value]) => `${key}=${typeof value === "string" && /\s/.test(value) ? JSON.stringify(value) : value}`)
+    .join(" ");
+  return `${new Date(ts).toLocaleString()} ${level.padEnd(5)} ${msg}${extra ? `  ${extra}` : ""}`;
+}
+
+async function cliLogs(follow: boolean, lines: number, filter: LogFilter): Promise<void> {
+  if (!existsSync(config.log_path)) throw new CliError(`No log at ${config.log_path}`);
+
+  const print = (text: string) => text.split("\n").filter(Boolean).flatMap((line) => formatLogLine(line, filter) ?? []);
+  const content = await readFile(config.log_path, "utf-8");
+  for (const line of print(content).slice(-lines)) console.log(line);
+  if (!follow) return;
+
+  // Poll rather than watch: rotation renames the file out from under a watcher
+  let offset = Buffer.byteLength(content);
+  let partial = "";
+  while (true) {
+    await Bun.sleep(1000);
+    const size = existsSync(config.log_path) ? (await stat(config.log_path)).size : 0;
+    if (size < offset) offset = 0;
+    if (size === offset) continue;
+
+    const chunk = partial + await Bun.file(config.log_path).slice(offset, size).text();
+    const end = chunk.lastIndexOf("\n") + 1;
+    partial = chunk.slice(end);
+    for (const line of print(chunk.slice(0, end))) console.log(line);
+    offset = size;
+  }
+}
+
+/** Problems with the resolved config that would stop the daemon doing its job. */
+async function checkConfig(): Promise<string[]> {
+  const problems: string[] = [];
+
+  if (!existsSync(config.vault_path)) problems.push(`Vault not found: ${config.vault_path}`);
+  else if (config.tasks.enabled && !existsSync(join(config.vault_path, "Tasks", "Inbox"))) {
+    problems.push(`Tasks are enabled but ${join(config.vault_path, "Tasks", "Inbox")} doesn't exist`);
+  }
+
+  const { executor: exec } = config;
+  if (exec.type === "claude" && !which(config.claude.command) && !existsSync(config.claude.command)) {
+    problems.push(`Claude CLI not found: ${config.claude.command}`);
+  }
+  if (exec.type === "command" && exec.command && !which(exec.command) && !existsSync(exec.command)) {
+    problems.push(`Executor command not found: ${exec.command}`);
+  }
+  if (exec.type === "fake" && exec.fixtures && !existsSync(exec.fixtures)) {
+    problems.push(`Fixture folder not found: ${exec.fixtures}`);
+  }
+  if (exec.type === "http" && config.agent_tags.enabled) {
+    problems.push("@agent tags are enabled but the http executor can't edit notes");
+  }
+
+  for (const [name, agent] of Object.entries(config.agent_tags.agents)) {
+    if (agent.scope && !toAgentScope(agent.scope)) problems.push(`agent_tags.agents.${name}: unknown scope "${agent.scope}"`);
+  }
+
+  await loadSchedules();
+  for (const schedule of schedules) {
+    const problem = validateSchedule(schedule);
+    if (problem) problems.push(`Schedule "${schedule.name}": ${problem}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Quote a value for a systemd unit so spaces (e.g. "My Vault") don't split it.
+ * `%` would start a specifier; ExecStart also expands `$`.
+ */
+function systemdQuote(value: string, exec = false): string {
+  const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/%/g, "%%");
+  return `"${exec ? escaped.replace(/\$/g, "$$$$") : escaped}"`;
+}
+
+function systemdUnit(bunPath: string, scriptPath: string): string {
+  const path = `${dirname(bunPath)}:${join(homedir(), ".local", "bin")}:/usr/local/bin:/usr/bin:/bin`;
+  return `[Unit]
+Description=Vault Daemon - Claude automation for an Obsidian vault
+After=network-online.target
+
+[Service]
+ExecStart=${systemdQuote(bunPath, true)} run ${systemdQuote(scriptPath, true)}
+WorkingDirectory=${config.vault_path.replace(/%/g, "%%")}
+Environment=${systemdQuote(`PATH=${path}`)}
+Restart=always
+RestartSec=10
+
+[Install]
+WantedBy=default.target
+`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function launchAgentPlist(label: string, bunPath: string, scriptPath: string): string {
+  const home = escapeXml(homedir());
+  const logPath = escapeXml(config.log_path);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>Label</key>
+    <string>${escapeXml(label)}</string>
+    <key>ProgramArguments</key>
+    <array>
+        <string>${escapeXml(bunPath)}</string>
+        <string>run</string>
+        <string>${escapeXml(scriptPath)}</string>
+    </array>
+    <key>WorkingDirectory</key>
+    <string>${escapeXml(config.vault_path)}</string>
+    <key>EnvironmentVariables</key>
+    <dict>
+        <key>PATH</key>
+        <string>/usr/local/bin:/usr/bin:/bin:${home}/.bun/bin:/opt/homebrew/bin:${home}/.local/bin</string>
+        <key>HOME</key>
+        <string>${home}</string>
+    </dict>
+    <key>RunAtLoad</key>
+    <true/>
+    <key>KeepAlive</key>
+    <true/>
+    <key>StandardOutPath</key>
+    <string>${logPath}</string>
+    <key>StandardErrorPath</key>
+    <string>${logPath}</string>
+    <key>ThrottleInterval</key>
+    <integer>10</integer>
+</dict>
+</plist>
+`;
+}
+
+/** Run a service manager command, echoing it; returns whether it succeeded. */
+function runServiceCommand(cmd: string[]): boolean {
+  console.log(`$ ${cmd.join(" ")}`);
+  const result = Bun.spawnSync(cmd, { stdout: "inherit", stderr: "inherit" });
+  return result.exitCode === 0;
+}
+
+async function cliInstallService(start: boolean): Promise<void> {
+  const bunPath = process.execPath;
+  const scriptPath = join(import.meta.dir, "daemon.ts");
+
+  if (process.platform === "linux") {
+    const unitPath = join(homedir(), ".config", "systemd", "user", "vault-daemon.service");
+    await mkdir(dirname(unitPath), { recursive: true });
+    await writeFile(unitPath, systemdUnit(bunPath, scriptPath));
+    console.log(`Wrote ${unitPath}`);
+
+    if (start && !(runServiceCommand(["systemctl", "--user", "daemon-reload"])
+      && runServiceCommand(["systemctl", "--user", "enable", "--now", "vault-daemon.service"]))) {
+      throw new CliError("systemctl failed; the unit file is in place, start it with: systemctl --user enable --now vault-daemon");
+    }
+    console.log("To keep it running after logout: loginctl enable-linger $USER");
+  } else if (process.platform === "darwin") {
+    const label = "com.vault-daemon";
+    const plistPath = join(homedir(), "Library", "LaunchAgents", `${label}.plist`);
+    await mkdir(dirname(plistPath), { recursive: true });
+    await writeFile(plistPath, launchAgentPlist(label, bunPath, scriptPath));
+    console.log(`Wrote ${plistPath}`);
+
+    if (start) {
+      Bun.spawnSync(["launchctl", "unload", plistPath], { stdout: "ignore", stderr: "ignore" });
+      if (!runServiceCommand(["launchctl", "load", plistPath])) throw new CliError("launchctl load failed");
+    }
+  } else {
+    throw new CliError(`No service manager support for ${process.platform}`);
+  }
+}
+
+/** Run a CLI subcommand and return the process exit code. */
+async function runCli(command: string, args: string[]): Promise<number> {
+  if (command === "help" || command === "--help" || command === "-h") {
+    console.log(CLI_USAGE);
+    return 0;
+  }
+
+  cliMode = true;
+  const { positional, flags } = parseCliArgs(args);
+
+  try {
+    let loaded: LoadedConfig;
+    try {
+      loaded = await loadConfig();
+    } catch (err) {
+      throw new CliError(`Failed to load config: ${err instanceof Error ? err.message : err}`);
+    }
+    config = loaded.config;
+
+    switch (command) {
+      case "status":
+        await cliStatus(Boolean(flags.json));
+        break;
+      case "tasks":
+        await cliTasks(positional[0], positional.slice(1), flags);
+        break;
+      case "schedule":
+      case "schedules":
+        await cliSchedule(positional[0], positional.slice(1), flags);
+        break;
+      case "scan":
+        await controlRequest("POST", "/scan");
+        console.log("Scan started");
+        break;
+      case "logs": {
+        const level = stringFlag(flags, "level")?.toUpperCase() as LogLevel | undefined;
+        if (level && !LOG_LEVELS.includes(level)) throw new CliError("--level must be debug, info, warn or error");
+        const filter: LogFilter = { json: Boolean(flags.json), task: stringFlag(flags, "task"), level };
+        const lines = stringFlag(flags, "lines") ?? "50";
+        if (!/^[1-9]\d*$/.test(lines)) throw new CliError(`--lines must be a positive whole number, got "${lines}"`);
+        await cliLogs(Boolean(flags.follow), Number(lines), filter);
+        break;
+      }
+      case "config": {
+        if (positional[0] !== "check") throw new CliError("Usage: config check");
+        const problems = await checkConfig();
+        console.log(JSON.stringify(config, null, 2));
+        console.error(`Loaded from: ${loaded.sources.join(" + ")}`);
+        for (const warning of loaded.warnings) console.error(`⚠ ${warning}`);
+        for (const problem of problems) console.error(`✗ ${problem}`);
+        if (problems.length > 0) return 1;
+        console.error("✓ Config OK");
+        break;
+      }
+      case "install-service":
+        await cliInstallService(!flags["no-start"]);
+        break;
+      default:
+        console.error(`Unknown command: ${command}\n`);
+        console.error(CLI_USAGE);
+        return 2;
+    }
+    return 0;
+  } catch (err) {
+    if (!(err instanceof CliError)) throw err;
+    console.error(err.message);
+    return 1;
+  }
 }
 
 // =============================================================================
 // Main
 // =============================================================================
 
+async function shutdown(message: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  await log("INFO", message);
+  updateState({ status: "paused" });
+
+  // Stop all cron jobs
+  for (const [id, job] of activeCronJobs) {
+    job.stop();
+  }
+  if (scheduleTickTimer) clearInterval(scheduleTickTimer);
+
+  await stopControlServer();
+  if (config.agent_tags.enabled) await saveAgentIndex();
+  if (scheduleHistorySaveTimer) await saveScheduleHistory();
+
+  // Kill any active processes; their files stay in In Progress and are
+  // requeued by the recovery pass on the next start
+  for (const [name, proc] of activeProcesses) {
+    await log("INFO", `Killing task: ${name}`);
+    proc.kill();
+    await recordTaskEvent(name, "interrupted", { pid: proc.pid ?? undefined, attempt: taskJournal.get(name)?.attempts });
+  }
+
+  // @agent commands stay claimed in the saved index and rerun on the next start
+  for (const [id, proc] of agentProcesses) {
+    await log("INFO", `Killing @agent command: ${id}`);
+    proc.kill();
+  }
+
+  if (dayRolloverTimer) clearTimeout(dayRolloverTimer);
+  metricsServer?.stop(true);
+  await saveMetrics();
+
+  process.exit(0);
+}
+
 async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  if (command && command !== "run") {
+    process.exit(await runCli(command, args));
+  }
+
   // Load and resolve config
+  let loaded: LoadedConfig;
   try {
-    const configContent = await readFile(CONFIG_PATH, "utf-8");
-    const rawConfig: Config = JSON.parse(configContent);
-    config = await resolveConfig(rawConfig);
+    loaded = await loadConfig();
   } catch (err) {
-    console.error("Failed to load config:", err);
+    console.error("Failed to load config:", err instanceof ConfigError ? err.message : err);
     process.exit(1);
   }
+  config = loaded.config;
 
   await log("INFO", "=".repeat(50));
   await log("INFO", "Vault Daemon starting...");
+  await log("INFO", `Config: ${loaded.sources.join(" + ")}`);
+  for (const warning of loaded.warnings) await log("WARN", `Config: ${warning}`);
   await log("INFO", `Vault: ${config.vault_path}`);
-  await log("INFO", `Claude: ${config.claude.command} ${config.claude.args.slice(0, 2).join(" ")}...`);
+  executor = createExecutor();
+  if (executor.type === "claude") {
+    await log("INFO", `Claude: ${config.claude.command} ${config.claude.args.slice(0, 2).join(" ")}...`);
+  } else {
+    await log("INFO", `Executor: ${executor.type} (${executor.label})`);
+  }
   await log("INFO", `Tasks enabled: ${config.tasks.enabled}`);
   await log("INFO", `@agent tags enabled: ${config.agent_tags.enabled}`);
+  if (config.agent_tags.enabled && !executor.canEditFiles) {
+    await log("WARN", `The ${executor.type} executor can't edit notes; @agent commands will fail`);
+  }
 
   // Initialize state
   updateState({ status: "idle" });
 
+  // Counts survive restarts; a new day starts at zero
+  await loadMetrics();
+  updateState(dailyStateCounts());
+  scheduleDayRollover();
+
+  // Reconcile task folders with the journal before any watcher starts
+  await loadJournal();
+  if (config.tasks.enabled) {
+    await recoverTasks();
+  }
+
+  await loadPromptTemplates();
+  setupPromptTemplateWatcher();
+
   // Load schedules and setup scheduler
+  await loadScheduleHistory();
   await loadSchedules();
   await setupScheduler();
   setupScheduleFileWatcher();
@@ -851,41 +6336,26 @@ async function main(): Promise<void> {
   }
 
   if (config.agent_tags.enabled) {
+    await loadAgentIndex();
     setupAgentTagWatcher();
   }
 
-  await log("INFO", "Vault Daemon ready");
-
-  // Keep process alive
-  process.on("SIGINT", async () => {
-    await log("INFO", "Shutting down...");
-    updateState({ status: "paused" });
-
-    // Stop all cron jobs
-    for (const [id, job] of activeCronJobs) {
-      job.stop();
-    }
-
-    // Kill any active processes
-    for (const [name, proc] of activeProcesses) {
-      await log("INFO", `Killing task: ${name}`);
-      proc.kill();
-    }
+  if (config.control.enabled) {
+    await startControlServer();
+  }
 
-    process.exit(0);
-  });
+  if (config.metrics.prometheus_port !== null) {
+    await startMetricsServer(config.metrics.prometheus_port);
+  }
 
-  process.on("SIGTERM", async () => {
-    await log("INFO", "Received SIGTERM, shutting down...");
-    updateState({ status: "paused" });
+  setupConfigWatcher();
 
-    // Stop all cron jobs
-    for (const [id, job] of activeCronJobs) {
-      job.stop();
-    }
+  await log("INFO", "Vault Daemon ready");
 
-    process.exit(0);
-  });
+  // Keep process alive
+  process.on("SIGINT", () => shutdown("Shutting down..."));
+  process.on("SIGTERM", () => shutdown("Received SIGTERM, shutting down..."));
 }
 
-main();
+// Imported by tests without starting the daemon
+if (import.meta.main) main();
@@ -179,6 +179,9 @@ EOF
     mkdir -p "$VAULT_PATH/Tasks/In Progress"
     mkdir -p "$VAULT_PATH/Tasks/Blocked"
     mkdir -p "$VAULT_PATH/Tasks/Completed"
+    mkdir -p "$VAULT_PATH/Tasks/Paused"
+    mkdir -p "$VAULT_PATH/Tasks/Cancelled"
+    mkdir -p "$VAULT_PATH/Tasks/Schedules"
     echo "  ✓ Tasks folders created"
 
     # Install LaunchAgent
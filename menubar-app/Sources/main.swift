@@ -35,6 +35,8 @@ class AppDelegate: NSObject, NSApplicationDelegate {
         .appendingPathComponent("Library/Logs/vault-daemon.log")
     private let schedulesPath = URL(fileURLWithPath: NSHomeDirectory())
         .appendingPathComponent(".vault-daemon-schedules.json")
+    private let controlPath = URL(fileURLWithPath: NSHomeDirectory())
+        .appendingPathComponent(".vault-daemon-control.json")
     private let launchAgentLabel = "com.vault-daemon"
     private let launchAgentPath: URL
 
@@ -261,7 +263,7 @@ class AppDelegate: NSObject, NSApplicationDelegate {
 
     private func createTaskFolders(vaultPath: String) {
         let fm = FileManager.default
-        let folders = ["Tasks/Inbox", "Tasks/In Progress", "Tasks/Blocked", "Tasks/Completed"]
+        let folders = ["Tasks/Inbox", "Tasks/In Progress", "Tasks/Blocked", "Tasks/Completed", "Tasks/Paused", "Tasks/Cancelled", "Tasks/Schedules"]
 
         for folder in folders {
             let folderPath = "\(vaultPath)/\(folder)"
@@ -662,7 +664,10 @@ class AppDelegate: NSObject, NSApplicationDelegate {
 
         // Update active tasks
         if let item = menu.item(withTag: 101) {
-            item.title = "Active: \(state.active_tasks)"
+            let activeAgent = state.active_agent_commands ?? 0
+            item.title = activeAgent > 0
+                ? "Active: \(state.active_tasks) tasks, \(activeAgent) @agent"
+                : "Active: \(state.active_tasks)"
         }
 
         // Update today stats
@@ -717,20 +722,43 @@ class AppDelegate: NSObject, NSApplicationDelegate {
     }
 
     @objc private func forceScan() {
-        // Write a trigger file that the daemon watches
-        let triggerPath = URL(fileURLWithPath: NSHomeDirectory())
-            .appendingPathComponent(".vault-daemon-trigger")
-        try? "scan".write(to: triggerPath, atomically: true, encoding: .utf8)
+        let triggered = sendControlRequest(path: "/scan")
 
         // Show confirmation
         let alert = NSAlert()
-        alert.messageText = "Scan Triggered"
-        alert.informativeText = "The daemon will scan for @agent tags momentarily."
-        alert.alertStyle = .informational
+        alert.messageText = triggered ? "Scan Triggered" : "Scan Failed"
+        alert.informativeText = triggered
+            ? "The daemon will scan for @agent tags momentarily."
+            : "Could not reach the daemon control API. Is the daemon running?"
+        alert.alertStyle = triggered ? .informational : .warning
         alert.addButton(withTitle: "OK")
         alert.runModal()
     }
 
+    /// POST to the daemon's loopback control API using the URL and token it publishes.
+    private func sendControlRequest(path: String) -> Bool {
+        guard let data = try? Data(contentsOf: controlPath),
+              let control = try? JSONDecoder().decode(ControlInfo.self, from: data),
+              let url = URL(string: control.url + path) else {
+            return false
+        }
+
+        var request = URLRequest(url: url)
+        request.httpMethod = "POST"
+        request.setValue("Bearer \(control.token)", forHTTPHeaderField: "Authorization")
+        request.timeoutInterval = 5
+
+        var succeeded = false
+        let semaphore = DispatchSemaphore(value: 0)
+        URLSession.shared.dataTask(with: request) { _, response, _ in
+            succeeded = (response as? HTTPURLResponse)?.statusCode == 200
+            semaphore.signal()
+        }.resume()
+        semaphore.wait()
+
+        return succeeded
+    }
+
     @objc private func togglePause() {
         let task = Process()
         task.launchPath = "/bin/launchctl"
@@ -1120,15 +1148,14 @@ struct ScheduleEditorView: View {
                 .keyboardShortcut(.cancelAction)
 
                 Button(schedule == nil ? "Create" : "Save") {
-                    let newSchedule = Schedule(
-                        id: schedule?.id ?? UUID().uuidString,
-                        name: name,
-                        prompt: prompt,
-                        cron: buildCronExpression(),
-                        enabled: schedule?.enabled ?? true,
-                        lastRun: schedule?.lastRun,
-                        createdAt: schedule?.createdAt
-                    )
+                    // Start from the existing schedule so fields this editor
+                    // doesn't show (overrides etc.) survive a save
+                    var newSchedule = schedule ?? Schedule(name: name, prompt: prompt, cron: "")
+                    newSchedule.name = name
+                    newSchedule.prompt = prompt
+                    newSchedule.cron = buildCronExpression()
+                    // The editor only builds recurring schedules
+                    newSchedule.run_at = nil
                     onSave(newSchedule)
                 }
                 .keyboardShortcut(.defaultAction)
@@ -1141,7 +1168,7 @@ struct ScheduleEditorView: View {
             if let schedule = schedule {
                 name = schedule.name
                 prompt = schedule.prompt
-                parseCronExpression(schedule.cron)
+                parseCronExpression(schedule.cron ?? "")
             }
         }
     }
@@ -1229,6 +1256,13 @@ struct DaemonState: Codable {
     let last_error: String?
     let tasks_completed_today: Int
     let agent_commands_today: Int
+    let active_agent_commands: Int?
+    let queued_agent_commands: Int?
+}
+
+struct ControlInfo: Codable {
+    let url: String
+    let token: String
 }
 
 struct DaemonConfig: Codable {
@@ -1266,11 +1300,28 @@ struct Schedule: Codable, Identifiable {
     var id: String
     var name: String
     var prompt: String
-    var cron: String
+    var cron: String?
     var enabled: Bool
     var lastRun: String?
     var createdAt: String
 
+    // Timing options (edited in the JSON file)
+    var run_at: String?
+    var timezone: String?
+    var catch_up: String?
+    var overlap: String?
+    var end_at: String?
+    var max_runs: Int?
+    var run_count: Int?
+
+    // Per-run Claude overrides (edited in the JSON file)
+    var model: String?
+    var allowed_tools: [String]?
+    var args: [String]?
+    var cwd: String?
+    var timeout_ms: Int?
+    var prompt_template: String?
+
     init(id: String = UUID().uuidString, name: String, prompt: String, cron: String, enabled: Bool = true, lastRun: String? = nil, createdAt: String? = nil) {
         self.id = id
         self.name = name